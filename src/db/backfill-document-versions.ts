@@ -0,0 +1,94 @@
+import fs from 'fs';
+import path from 'path';
+import pool from './connection';
+import { resolveStoredPath } from '../services/fileAccess';
+import { recordDocumentVersion } from '../services/documentVersions';
+import { VersionTrigger } from '../types';
+
+const UPLOAD_DIR = process.env.UPLOAD_DIR || './uploads';
+
+// Build the version history (and file hashes) of documents stored before
+// document_versions existed: the original, every signed-<id>-<ts>.pdf and
+// completed-<id>-<ts>.pdf still in the signed directory (earlier submissions
+// left them behind) and the current signed file. Documents that already have
+// versions are skipped, so it is safe to run repeatedly. Signer snapshots in
+// the hash registry reflect the signers at the time of the backfill.
+async function backfillDocumentVersions() {
+  try {
+    console.log('🔄 Backfilling document versions...');
+
+    const signedDir = path.join(UPLOAD_DIR, 'signed');
+    const signedFiles = fs.existsSync(resolveStoredPath(signedDir))
+      ? fs.readdirSync(resolveStoredPath(signedDir))
+      : [];
+
+    const documents = await pool.query(
+      `SELECT d.id, d.original_file_path, d.signed_file_path, d.uploaded_by, d.file_type, d.created_at, d.updated_at
+       FROM documents d
+       WHERE NOT EXISTS (SELECT 1 FROM document_versions v WHERE v.document_id = d.id)
+       ORDER BY d.id`
+    );
+
+    let recorded = 0;
+    for (const document of documents.rows) {
+      const versions: { trigger: VersionTrigger; filePath: string; actorId: number | null; createdAt: Date }[] = [];
+
+      if (fs.existsSync(resolveStoredPath(document.original_file_path))) {
+        versions.push({
+          trigger: 'uploaded',
+          filePath: document.original_file_path,
+          actorId: document.uploaded_by,
+          createdAt: document.created_at,
+        });
+      } else {
+        console.warn(`⚠️ Document ${document.id}: original file missing (${document.original_file_path})`);
+      }
+
+      const generated = signedFiles
+        .map(name => name.match(new RegExp(`^(signed|completed)-${document.id}-(\\d+)\\.pdf$`)))
+        .filter((match): match is RegExpMatchArray => match !== null)
+        .map(match => ({
+          trigger: (match[1] === 'completed' ? 'completed' : 'signed') as VersionTrigger,
+          filePath: path.join(signedDir, match[0]),
+          actorId: null,
+          createdAt: new Date(parseInt(match[2])),
+        }))
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+      // The current file last, even if it was stored under another name
+      const current = generated.find(version => version.filePath === document.signed_file_path);
+      const ordered = generated.filter(version => version !== current);
+      if (current) {
+        ordered.push(current);
+      } else if (document.signed_file_path && fs.existsSync(resolveStoredPath(document.signed_file_path))) {
+        ordered.push({ trigger: 'signed', filePath: document.signed_file_path, actorId: null, createdAt: document.updated_at });
+      }
+      versions.push(...ordered);
+
+      for (const version of versions) {
+        // Word originals were converted on upload, so the stored PDF isn't the uploaded file
+        const hashKind = version.trigger === 'uploaded' && document.file_type === 'word' ? 'converted' : undefined;
+        const recordedVersion = await recordDocumentVersion(
+          document.id,
+          version.trigger,
+          version.filePath,
+          version.actorId,
+          hashKind
+        );
+        await pool.query(
+          'UPDATE document_versions SET created_at = $1 WHERE id = $2',
+          [version.createdAt, recordedVersion.id]
+        );
+        recorded++;
+      }
+    }
+
+    console.log(`✅ Recorded ${recorded} version(s) for ${documents.rows.length} document(s)`);
+    process.exit(0);
+  } catch (error) {
+    console.error('❌ Backfill failed:', error);
+    process.exit(1);
+  }
+}
+
+backfillDocumentVersions();
@@ -10,6 +10,20 @@ async function migrate() {
     await pool.query(schema);
     console.log('✅ Database schema created successfully');
     
+    // Apply incremental migrations (all are idempotent, so re-running is safe)
+    const migrationsDir = path.join(__dirname, 'migrations');
+    if (fs.existsSync(migrationsDir)) {
+      const migrations = fs.readdirSync(migrationsDir)
+        .filter(file => file.endsWith('.sql'))
+        .sort();
+      
+      for (const file of migrations) {
+        const sql = fs.readFileSync(path.join(migrationsDir, file), 'utf-8');
+        await pool.query(sql);
+        console.log(`✅ Applied migration: ${file}`);
+      }
+    }
+    
     // Create upload directories
     const uploadDir = process.env.UPLOAD_DIR || './uploads';
     const dirs = [
@@ -0,0 +1,4 @@
+-- Migration: Attribute audit log entries to the API key that made the request
+
+ALTER TABLE audit_logs
+ADD COLUMN IF NOT EXISTS api_key_id INTEGER REFERENCES api_keys(id) ON DELETE SET NULL;
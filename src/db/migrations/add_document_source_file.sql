@@ -0,0 +1,15 @@
+-- Migration: Keep the uploaded Word file next to its converted PDF
+-- source_file_path is the .doc/.docx as uploaded (NULL for PDF uploads);
+-- original_file_path stays the PDF that is prepared, signed and viewed.
+
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS source_file_path VARCHAR(1000);
+
+-- Word uploads before this migration only recorded the file in its hash
+UPDATE documents d
+SET source_file_path = h.file_path
+FROM document_file_hashes h
+WHERE h.document_id = d.id
+  AND h.kind = 'original'
+  AND d.file_type = 'word'
+  AND d.source_file_path IS NULL;
@@ -0,0 +1,8 @@
+-- Migration: Link filled-in values to the placeholder they fill
+-- Values placed freely (documents prepared without placeholders) keep field_id NULL.
+
+ALTER TABLE text_fields
+ADD COLUMN IF NOT EXISTS field_id INTEGER REFERENCES document_fields(id) ON DELETE SET NULL;
+
+ALTER TABLE signatures
+ADD COLUMN IF NOT EXISTS field_id INTEGER REFERENCES document_fields(id) ON DELETE SET NULL;
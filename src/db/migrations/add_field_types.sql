@@ -0,0 +1,13 @@
+-- Migration: Rich field types
+-- text_fields now holds every non-image value (text, checkbox, date, dropdown,
+-- radio, number, email) and signatures every image (signature, initials).
+-- document_fields.options carries per-type settings, e.g. dropdown choices.
+
+ALTER TABLE document_fields
+ADD COLUMN IF NOT EXISTS options JSONB DEFAULT '{}';
+
+ALTER TABLE text_fields
+ADD COLUMN IF NOT EXISTS field_type VARCHAR(50) DEFAULT 'text';
+
+ALTER TABLE signatures
+ADD COLUMN IF NOT EXISTS field_type VARCHAR(50) DEFAULT 'signature';
@@ -0,0 +1,7 @@
+-- Migration: Placeholders backed by the PDF's own form fields
+-- pdf_field_name is the fully qualified AcroForm field name; its value is
+-- filled into that field instead of drawn over the page, and the form is
+-- flattened when the document is completed.
+
+ALTER TABLE document_fields
+ADD COLUMN IF NOT EXISTS pdf_field_name VARCHAR(500);
@@ -0,0 +1,6 @@
+-- Migration: Link existing accounts to single sign-on explicitly
+-- A login started by a signed-in user carries their id; the callback links
+-- the IdP identity to that account instead of matching one by email.
+
+ALTER TABLE oidc_login_states
+ADD COLUMN IF NOT EXISTS link_user_id INTEGER REFERENCES users(id) ON DELETE CASCADE;
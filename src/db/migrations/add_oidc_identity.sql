@@ -0,0 +1,10 @@
+-- Migration: Link users to their single sign-on identity
+-- (issuer, subject) identifies the user at the IdP even if their email changes
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS oidc_issuer VARCHAR(500);
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS oidc_subject VARCHAR(255);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_oidc_identity ON users(oidc_issuer, oidc_subject);
@@ -0,0 +1,26 @@
+-- Migration: Add organization membership to users and documents
+-- External (guest) signers keep org_id NULL so any organization can send to them.
+-- Existing internal users and their documents are moved into a default organization.
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS org_id INTEGER REFERENCES organizations(id);
+
+ALTER TABLE documents
+ADD COLUMN IF NOT EXISTS org_id INTEGER REFERENCES organizations(id);
+
+CREATE INDEX IF NOT EXISTS idx_users_org_id ON users(org_id);
+CREATE INDEX IF NOT EXISTS idx_documents_org_id ON documents(org_id);
+
+INSERT INTO organizations (name, slug)
+SELECT 'Default Organization', 'default'
+WHERE EXISTS (SELECT 1 FROM users WHERE org_id IS NULL AND is_external = FALSE)
+ON CONFLICT (slug) DO NOTHING;
+
+UPDATE users
+SET org_id = (SELECT id FROM organizations WHERE slug = 'default')
+WHERE org_id IS NULL AND is_external = FALSE;
+
+UPDATE documents
+SET org_id = users.org_id
+FROM users
+WHERE documents.uploaded_by = users.id AND documents.org_id IS NULL;
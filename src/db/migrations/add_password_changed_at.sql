@@ -0,0 +1,5 @@
+-- Migration: Add password_changed_at field to users table
+-- Access tokens issued before this timestamp are rejected by the auth middleware
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS password_changed_at TIMESTAMP;
@@ -0,0 +1,4 @@
+-- Migration: Link placed signatures to the uploaded asset they use
+
+ALTER TABLE signatures
+ADD COLUMN IF NOT EXISTS signature_asset_id INTEGER REFERENCES signature_assets(id) ON DELETE SET NULL;
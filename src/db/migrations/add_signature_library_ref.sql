@@ -0,0 +1,6 @@
+-- Migration: Remember which saved signature a placed signature came from
+-- The image path is still copied onto the signature, so deleting a saved
+-- signature doesn't affect documents that already use it.
+
+ALTER TABLE signatures
+ADD COLUMN IF NOT EXISTS user_signature_id INTEGER REFERENCES user_signatures(id) ON DELETE SET NULL;
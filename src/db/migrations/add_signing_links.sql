@@ -0,0 +1,9 @@
+-- Migration: Passwordless signing for external recipients
+-- External recipients no longer need a password, and a session opened from a
+-- signing link is limited to the one document it was issued for.
+
+ALTER TABLE users
+ALTER COLUMN password_hash DROP NOT NULL;
+
+ALTER TABLE sessions
+ADD COLUMN IF NOT EXISTS document_id INTEGER REFERENCES documents(id) ON DELETE CASCADE;
@@ -0,0 +1,22 @@
+-- Migration: Routing order for document recipients
+-- Recipients with the same signing_order sign in parallel; a later group is
+-- only notified (notified_at) and allowed to sign once every earlier group
+-- has signed. Existing assignments all share order 1, i.e. stay parallel.
+
+ALTER TABLE document_recipients
+ADD COLUMN IF NOT EXISTS signing_order INTEGER NOT NULL DEFAULT 1;
+
+-- Recipients assigned before this migration were notified on assignment.
+-- Backfill only when the column is first added, so re-running stays safe.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'document_recipients' AND column_name = 'notified_at'
+  ) THEN
+    ALTER TABLE document_recipients ADD COLUMN notified_at TIMESTAMP;
+    UPDATE document_recipients SET notified_at = created_at;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_document_recipients_order ON document_recipients(document_id, signing_order);
@@ -0,0 +1,9 @@
+-- Migration: Fonts and alignment for text values
+-- font_family names one of the fonts in services/pdfFonts.ts (NULL uses the
+-- default); text is wrapped and shrunk to fit the field and aligned within it.
+
+ALTER TABLE text_fields
+ADD COLUMN IF NOT EXISTS font_family VARCHAR(100);
+
+ALTER TABLE text_fields
+ADD COLUMN IF NOT EXISTS text_align VARCHAR(10) DEFAULT 'left';
@@ -0,0 +1,11 @@
+-- Migration: Add TOTP two-factor fields to users table
+-- totp_secret is encrypted at rest; totp_last_used_step prevents replaying a code
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS totp_secret TEXT;
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS totp_enabled BOOLEAN DEFAULT FALSE;
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS totp_last_used_step BIGINT;
@@ -0,0 +1,15 @@
+-- Migration: Add account status fields to users table
+-- Deactivated users can't log in and their sessions are rejected by the auth middleware.
+-- merged_into_user_id records where an auto-created external account was merged to.
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS is_active BOOLEAN DEFAULT TRUE;
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS deactivated_at TIMESTAMP;
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS merged_into_user_id INTEGER REFERENCES users(id);
+
+-- Update role comment to include new role
+COMMENT ON COLUMN users.role IS 'admin, management, recipient';
@@ -0,0 +1,44 @@
+// Generate a self-signed organization certificate for sealing PDFs locally.
+// Validators will show the seal as valid but the signer as untrusted; use a
+// certificate from a trusted CA in production.
+//
+// Usage:
+//   npm run signing-cert -- [output.p12] [password] [organization name]
+//   then set PDF_SIGNING_P12_PATH and PDF_SIGNING_P12_PASSWORD in .env
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import forge from 'node-forge';
+
+const [
+  outputPath = 'certs/signing.p12',
+  password = 'easysign',
+  organization = 'EasySign Development',
+] = process.argv.slice(2);
+
+const { privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const forgeKey = forge.pki.privateKeyFromPem(privateKey.export({ type: 'pkcs1', format: 'pem' }).toString());
+
+const certificate = forge.pki.createCertificate();
+certificate.publicKey = forge.pki.setRsaPublicKey(forgeKey.n, forgeKey.e);
+certificate.serialNumber = `01${crypto.randomBytes(8).toString('hex')}`;
+certificate.validity.notBefore = new Date();
+certificate.validity.notAfter = new Date(Date.now() + 3 * 365 * 24 * 60 * 60 * 1000);
+const name = [
+  { name: 'commonName', value: organization },
+  { name: 'organizationName', value: organization },
+];
+certificate.setSubject(name);
+certificate.setIssuer(name);
+certificate.setExtensions([
+  { name: 'basicConstraints', cA: false },
+  { name: 'keyUsage', digitalSignature: true, nonRepudiation: true },
+]);
+certificate.sign(forgeKey, forge.md.sha256.create());
+
+const p12 = forge.pkcs12.toPkcs12Asn1(forgeKey, [certificate], password, { algorithm: '3des' });
+const resolvedPath = path.resolve(outputPath);
+fs.mkdirSync(path.dirname(resolvedPath), { recursive: true });
+fs.writeFileSync(resolvedPath, Buffer.from(forge.asn1.toDer(p12).getBytes(), 'binary'));
+
+console.log(`🔑 Signing certificate for "${organization}" written to ${resolvedPath}`);
@@ -0,0 +1,178 @@
+// Minimal OpenID Connect provider for trying out single sign-on locally.
+// It signs users in from a form (any email, any groups) and implements just
+// enough of the spec for EasySign: discovery, authorization code + PKCE,
+// token endpoint and JWKS.
+//
+// Usage:
+//   npm run mock-oidc
+//   PUT /api/organizations/current/sso
+//     { "issuer": "http://localhost:4010", "client_id": "easysign", "client_secret": "easysign-secret",
+//       "management_groups": ["signers-admin"] }
+//   then open http://localhost:3001/api/auth/oidc/<org-slug>/login
+import express from 'express';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const PORT = parseInt(process.env.MOCK_OIDC_PORT || '4010');
+const ISSUER = process.env.MOCK_OIDC_ISSUER || `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.MOCK_OIDC_CLIENT_ID || 'easysign';
+const CLIENT_SECRET = process.env.MOCK_OIDC_CLIENT_SECRET || 'easysign-secret';
+const CODE_EXPIRES_MS = 60 * 1000;
+
+interface PendingCode {
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  email: string;
+  name: string;
+  groups: string[];
+  expiresAt: number;
+}
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const KEY_ID = crypto.randomBytes(8).toString('hex');
+const codes = new Map<string, PendingCode>();
+
+function base64url(buffer: Buffer): string {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+const app = express();
+app.use(express.urlencoded({ extended: true }));
+
+app.get('/.well-known/openid-configuration', (req, res) => {
+  res.json({
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    jwks_uri: `${ISSUER}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    code_challenge_methods_supported: ['S256'],
+    scopes_supported: ['openid', 'email', 'profile'],
+  });
+});
+
+app.get('/jwks', (req, res) => {
+  res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid: KEY_ID, alg: 'RS256', use: 'sig' }] });
+});
+
+// Show a sign-in form instead of checking credentials
+app.get('/authorize', (req, res) => {
+  const query = req.query as Record<string, string | undefined>;
+
+  if (query.client_id !== CLIENT_ID) {
+    return res.status(400).send('Unknown client_id');
+  }
+  if (query.response_type !== 'code') {
+    return res.status(400).send('Only response_type=code is supported');
+  }
+  if (!query.redirect_uri || !query.code_challenge || query.code_challenge_method !== 'S256') {
+    return res.status(400).send('redirect_uri and an S256 code_challenge are required');
+  }
+
+  const hidden = ['redirect_uri', 'state', 'nonce', 'code_challenge']
+    .map(name => `<input type="hidden" name="${name}" value="${escapeHtml(query[name] || '')}">`)
+    .join('\n');
+
+  res.send(`
+    <html>
+      <body style="font-family: Arial, sans-serif; max-width: 400px; margin: 40px auto;">
+        <h2>Mock identity provider</h2>
+        <form method="post" action="/authorize">
+          ${hidden}
+          <p><label>Email<br><input name="email" value="${escapeHtml(query.login_hint || '')}" required style="width: 100%"></label></p>
+          <p><label>Name<br><input name="name" style="width: 100%"></label></p>
+          <p><label>Groups (comma separated)<br><input name="groups" style="width: 100%"></label></p>
+          <button type="submit">Sign in</button>
+        </form>
+      </body>
+    </html>
+  `);
+});
+
+app.post('/authorize', (req, res) => {
+  const { redirect_uri, state, nonce, code_challenge, email, name, groups } = req.body;
+
+  const code = base64url(crypto.randomBytes(24));
+  codes.set(code, {
+    redirectUri: redirect_uri,
+    codeChallenge: code_challenge,
+    nonce: nonce || undefined,
+    email: String(email).toLowerCase().trim(),
+    name: name || String(email).split('@')[0],
+    groups: String(groups || '').split(',').map((group: string) => group.trim()).filter(Boolean),
+    expiresAt: Date.now() + CODE_EXPIRES_MS,
+  });
+
+  const params = new URLSearchParams({ code });
+  if (state) {
+    params.set('state', state);
+  }
+  res.redirect(`${redirect_uri}?${params.toString()}`);
+});
+
+app.post('/token', (req, res) => {
+  const { grant_type, code, redirect_uri, code_verifier } = req.body;
+
+  // Accept client credentials in the body or as HTTP Basic auth
+  let clientId = req.body.client_id;
+  let clientSecret = req.body.client_secret;
+  const basic = req.headers.authorization;
+  if (basic?.startsWith('Basic ')) {
+    [clientId, clientSecret] = Buffer.from(basic.substring(6), 'base64').toString().split(':');
+  }
+
+  if (clientId !== CLIENT_ID || clientSecret !== CLIENT_SECRET) {
+    return res.status(401).json({ error: 'invalid_client' });
+  }
+  if (grant_type !== 'authorization_code') {
+    return res.status(400).json({ error: 'unsupported_grant_type' });
+  }
+
+  const pending = codes.get(code);
+  codes.delete(code);
+
+  if (!pending || pending.expiresAt < Date.now() || pending.redirectUri !== redirect_uri) {
+    return res.status(400).json({ error: 'invalid_grant' });
+  }
+
+  const challenge = base64url(crypto.createHash('sha256').update(code_verifier || '').digest());
+  if (challenge !== pending.codeChallenge) {
+    return res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+  }
+
+  const idToken = jwt.sign(
+    {
+      sub: crypto.createHash('sha256').update(pending.email).digest('hex').substring(0, 24),
+      email: pending.email,
+      email_verified: true,
+      name: pending.name,
+      groups: pending.groups,
+      ...(pending.nonce ? { nonce: pending.nonce } : {}),
+    },
+    privateKey,
+    { algorithm: 'RS256', keyid: KEY_ID, issuer: ISSUER, audience: CLIENT_ID, expiresIn: '5m' }
+  );
+
+  res.json({
+    access_token: base64url(crypto.randomBytes(24)),
+    token_type: 'Bearer',
+    expires_in: 300,
+    id_token: idToken,
+  });
+});
+
+app.listen(PORT, () => {
+  console.log(`🔐 Mock OIDC provider running at ${ISSUER}`);
+  console.log(`   client_id: ${CLIENT_ID}`);
+  console.log(`   client_secret: ${CLIENT_SECRET}`);
+});
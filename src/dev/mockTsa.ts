@@ -0,0 +1,98 @@
+// Minimal RFC 3161 timestamp authority for trying out PDF sealing locally.
+// It stamps whatever it is sent with the current time, signed by a throwaway
+// certificate generated at startup, so validators will report the timestamp
+// as untrusted but structurally valid.
+//
+// Usage:
+//   npm run mock-tsa
+//   PDF_SIGNING_TSA_URL=http://localhost:4020 in .env
+import express from 'express';
+import crypto from 'crypto';
+import forge from 'node-forge';
+import dotenv from 'dotenv';
+import { buildSignedData, fromDerBuffer, integer, OIDS, oid, sequence, toDerBuffer } from '../utils/cms';
+
+dotenv.config();
+
+const PORT = parseInt(process.env.MOCK_TSA_PORT || '4020');
+// Placeholder policy OID for the mock TSA
+const POLICY_OID = '1.3.6.1.4.1.55555.1.1';
+
+const { asn1 } = forge;
+
+function createTsaIdentity() {
+  const { privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const privateKeyPem = privateKey.export({ type: 'pkcs1', format: 'pem' }).toString();
+  const forgeKey = forge.pki.privateKeyFromPem(privateKeyPem);
+
+  const certificate = forge.pki.createCertificate();
+  certificate.publicKey = forge.pki.setRsaPublicKey(forgeKey.n, forgeKey.e);
+  certificate.serialNumber = `01${crypto.randomBytes(8).toString('hex')}`;
+  certificate.validity.notBefore = new Date();
+  certificate.validity.notAfter = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000);
+  const name = [{ name: 'commonName', value: 'EasySign Mock TSA' }];
+  certificate.setSubject(name);
+  certificate.setIssuer(name);
+  certificate.setExtensions([
+    { name: 'basicConstraints', cA: false },
+    { name: 'keyUsage', digitalSignature: true, nonRepudiation: true },
+    { name: 'extKeyUsage', timeStamping: true, critical: true },
+  ]);
+  certificate.sign(forgeKey, forge.md.sha256.create());
+
+  return { certificate, chain: [], privateKeyPem };
+}
+
+const identity = createTsaIdentity();
+let serial = 1;
+
+function generalizedTime(date: Date) {
+  return asn1.create(asn1.Class.UNIVERSAL, asn1.Type.GENERALIZEDTIME, false, asn1.dateToGeneralizedTime(date));
+}
+
+function reply(status: number, token?: forge.asn1.Asn1): Buffer {
+  return toDerBuffer(sequence([sequence([integer(status)]), ...(token ? [token] : [])]));
+}
+
+const app = express();
+app.use(express.raw({ type: 'application/timestamp-query', limit: '64kb' }));
+
+app.post('/', (req, res) => {
+  res.type('application/timestamp-reply');
+
+  let request: forge.asn1.Asn1[];
+  try {
+    request = fromDerBuffer(req.body).value as forge.asn1.Asn1[];
+  } catch (error) {
+    // rejection, badDataFormat
+    res.send(reply(2));
+    return;
+  }
+
+  const messageImprint = request[1];
+  const nonce = request.find(
+    (node, index) => index > 1 && node.tagClass === asn1.Class.UNIVERSAL && node.type === asn1.Type.INTEGER
+  );
+
+  const tstInfo = toDerBuffer(sequence([
+    integer(1),
+    oid(POLICY_OID),
+    messageImprint,
+    integer(serial++),
+    generalizedTime(new Date()),
+    ...(nonce ? [nonce] : []),
+  ]));
+
+  const { signedData } = buildSignedData({
+    identity,
+    contentType: OIDS.tstInfo,
+    content: tstInfo,
+    contentDigest: crypto.createHash('sha256').update(tstInfo).digest(),
+  });
+
+  res.send(reply(0, signedData));
+});
+
+app.listen(PORT, () => {
+  console.log(`🕒 Mock TSA listening on http://localhost:${PORT}`);
+});
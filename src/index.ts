@@ -1,11 +1,17 @@
 import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import path from 'path';
 import authRoutes from './routes/auth';
+import twoFactorRoutes from './routes/twoFactor';
+import oidcRoutes from './routes/oidc';
 import documentRoutes from './routes/documents';
 import signingRoutes from './routes/signing';
 import dashboardRoutes from './routes/dashboard';
+import organizationRoutes from './routes/organizations';
+import adminRoutes from './routes/admin';
+import apiKeyRoutes from './routes/apiKeys';
+import userSignatureRoutes from './routes/userSignatures';
+import fileRoutes from './routes/files';
 
 dotenv.config();
 
@@ -20,15 +26,21 @@ app.use(cors({
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
-// Serve uploaded files
+// Uploaded files are not served statically; clients request signed URLs from /api/files
 const UPLOAD_DIR = process.env.UPLOAD_DIR || './uploads';
-app.use('/uploads', express.static(path.resolve(UPLOAD_DIR)));
 
 // Routes
+app.use('/api/auth/2fa', twoFactorRoutes);
+app.use('/api/auth/oidc', oidcRoutes);
 app.use('/api/auth', authRoutes);
 app.use('/api/documents', documentRoutes);
 app.use('/api/signing', signingRoutes);
 app.use('/api/dashboard', dashboardRoutes);
+app.use('/api/organizations', organizationRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/api-keys', apiKeyRoutes);
+app.use('/api/user-signatures', userSignatureRoutes);
+app.use('/api/files', fileRoutes);
 
 // Health check
 app.get('/api/health', (req, res) => {
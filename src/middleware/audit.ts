@@ -1,36 +1,55 @@
-import { Response, NextFunction } from 'express';
+import { Request, Response, NextFunction } from 'express';
 import pool from '../db/connection';
 import { AuthRequest } from './auth';
 
+interface AuditEntry {
+  userId?: number | null;
+  apiKeyId?: number | null;
+  documentId?: number | string | null;
+  action: string;
+  details?: any;
+}
+
+// Write a single audit log row (for events that don't map to one route)
+export async function writeAuditLog(req: Request, entry: AuditEntry): Promise<void> {
+  try {
+    await pool.query(
+      `INSERT INTO audit_logs (user_id, document_id, action, details, ip_address, user_agent, api_key_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+      [
+        entry.userId || null,
+        entry.documentId || null,
+        entry.action,
+        JSON.stringify(entry.details || {}),
+        req.ip || req.socket.remoteAddress,
+        req.get('user-agent') || null,
+        entry.apiKeyId || null,
+      ]
+    );
+  } catch (error) {
+    console.error('Audit log error:', error);
+  }
+}
+
 export function auditLog(action: string) {
   return async (req: AuthRequest, res: Response, next: NextFunction) => {
     const originalSend = res.json;
-    
+
     res.json = function (data: any) {
       // Log after response is sent
-      setImmediate(async () => {
-        try {
-          await pool.query(
-            `INSERT INTO audit_logs (user_id, document_id, action, details, ip_address, user_agent)
-             VALUES ($1, $2, $3, $4, $5, $6)`,
-            [
-              req.user?.userId || null,
-              (req.body?.document_id || req.params?.id) || null,
-              action,
-              JSON.stringify({ body: req.body, params: req.params, query: req.query }),
-              req.ip || req.socket.remoteAddress,
-              req.get('user-agent') || null,
-            ]
-          );
-        } catch (error) {
-          console.error('Audit log error:', error);
-        }
+      setImmediate(() => {
+        writeAuditLog(req, {
+          userId: req.user?.userId,
+          apiKeyId: req.user?.apiKeyId,
+          documentId: req.body?.document_id || req.params?.id || req.params?.documentId,
+          action,
+          details: { body: req.body, params: req.params, query: req.query },
+        });
       });
-      
+
       return originalSend.call(this, data);
     };
-    
+
     next();
   };
 }
-
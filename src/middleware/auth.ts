@@ -1,12 +1,64 @@
 import { Request, Response, NextFunction } from 'express';
+import pool from '../db/connection';
 import { verifyToken } from '../utils/jwt';
+import { isApiKey, findApiKey } from '../services/apiKey';
 import { JwtPayload } from '../types';
 
 export interface AuthRequest extends Request {
   user?: JwtPayload;
+  apiKeyScope?: string;
 }
 
-export function authenticate(req: AuthRequest, res: Response, next: NextFunction) {
+// Roles that carry the permissions of other roles as well
+const ROLE_INHERITS: Record<string, string[]> = {
+  admin: ['management'],
+};
+
+export function hasRole(userRole: string, role: string): boolean {
+  return userRole === role || (ROLE_INHERITS[userRole] || []).includes(role);
+}
+
+// Let a route accept API keys that carry the given scope. API keys are
+// rejected by every route that doesn't declare one.
+export function allowApiKey(scope: string) {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    req.apiKeyScope = scope;
+    next();
+  };
+}
+
+async function authenticateApiKey(key: string, req: AuthRequest, res: Response, next: NextFunction) {
+  if (!req.apiKeyScope) {
+    return res.status(401).json({ error: 'API keys are not accepted for this endpoint' });
+  }
+  
+  try {
+    const owner = await findApiKey(key, req.ip || req.socket.remoteAddress);
+    if (!owner) {
+      return res.status(401).json({ error: 'Invalid, expired or revoked API key' });
+    }
+    
+    if (!owner.apiKey.scopes.includes(req.apiKeyScope)) {
+      return res.status(403).json({ error: `API key is missing the ${req.apiKeyScope} scope` });
+    }
+    
+    req.user = {
+      userId: owner.user.id,
+      email: owner.user.email,
+      role: owner.user.role,
+      orgId: owner.apiKey.org_id,
+      sessionId: 0,
+      apiKeyId: owner.apiKey.id,
+    };
+    next();
+  } catch (error) {
+    console.error('API key check error:', error);
+    return res.status(500).json({ error: 'Failed to authenticate' });
+  }
+}
+
+export async function authenticate(req: AuthRequest, res: Response, next: NextFunction) {
+  let payload: JwtPayload;
   try {
     const authHeader = req.headers.authorization;
     
@@ -15,12 +67,61 @@ export function authenticate(req: AuthRequest, res: Response, next: NextFunction
     }
     
     const token = authHeader.substring(7);
-    const payload = verifyToken(token);
+    if (isApiKey(token)) {
+      return authenticateApiKey(token, req, res, next);
+    }
+    payload = verifyToken(token);
+  } catch (error) {
+    return res.status(401).json({ error: 'Invalid or expired token' });
+  }
+  
+  try {
+    // The signature alone is not enough: the session must still be live and
+    // the token must have been issued after the user's last password change
+    const sessionResult = await pool.query(
+      `SELECT s.revoked_at, s.expires_at, s.document_id, u.password_changed_at, u.is_active
+       FROM sessions s
+       JOIN users u ON s.user_id = u.id
+       WHERE s.id = $1 AND s.user_id = $2`,
+      [payload.sessionId, payload.userId]
+    );
+    
+    if (sessionResult.rows.length === 0) {
+      return res.status(401).json({ error: 'Session not found' });
+    }
+    
+    const session = sessionResult.rows[0];
+    if (session.revoked_at || new Date(session.expires_at) < new Date()) {
+      return res.status(401).json({ error: 'Session has been revoked or expired' });
+    }
+    
+    if (session.is_active === false) {
+      return res.status(401).json({ error: 'Account is deactivated' });
+    }
+    
+    if (session.password_changed_at && payload.iat) {
+      const changedAtSeconds = Math.floor(new Date(session.password_changed_at).getTime() / 1000);
+      if (payload.iat < changedAtSeconds) {
+        return res.status(401).json({ error: 'Token issued before password change' });
+      }
+    }
+    
+    // Signing-link sessions may only use the signing routes of their own document
+    if (session.document_id) {
+      const routeDocumentId = req.params.documentId;
+      const inScope = req.baseUrl === '/api/signing'
+        && (routeDocumentId === undefined || parseInt(routeDocumentId) === session.document_id);
+      if (!inScope) {
+        return res.status(403).json({ error: 'This signing link does not grant access to this resource' });
+      }
+      payload.documentId = session.document_id;
+    }
     
     req.user = payload;
     next();
   } catch (error) {
-    return res.status(401).json({ error: 'Invalid or expired token' });
+    console.error('Session check error:', error);
+    return res.status(500).json({ error: 'Failed to authenticate' });
   }
 }
 
@@ -30,7 +131,7 @@ export function requireRole(roles: string[]) {
       return res.status(401).json({ error: 'Unauthorized' });
     }
     
-    if (!roles.includes(req.user.role)) {
+    if (!roles.some(role => hasRole(req.user!.role, role))) {
       return res.status(403).json({ error: 'Forbidden: Insufficient permissions' });
     }
     
@@ -0,0 +1,49 @@
+import { Request, Response, NextFunction } from 'express';
+
+interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+  message?: string;
+  keyGenerator?: (req: Request) => string;
+}
+
+interface Bucket {
+  count: number;
+  resetAt: number;
+}
+
+// Simple fixed-window, in-memory rate limiter. Good enough for a single
+// server process; counters reset on restart.
+export function rateLimit(options: RateLimitOptions) {
+  const buckets = new Map<string, Bucket>();
+  const keyGenerator = options.keyGenerator || ((req: Request) => req.ip || req.socket.remoteAddress || 'unknown');
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const now = Date.now();
+    const key = keyGenerator(req);
+
+    // Drop expired buckets so the map does not grow without bound
+    if (buckets.size > 10000) {
+      for (const [bucketKey, bucket] of buckets) {
+        if (bucket.resetAt <= now) {
+          buckets.delete(bucketKey);
+        }
+      }
+    }
+
+    let bucket = buckets.get(key);
+    if (!bucket || bucket.resetAt <= now) {
+      bucket = { count: 0, resetAt: now + options.windowMs };
+      buckets.set(key, bucket);
+    }
+
+    bucket.count++;
+
+    if (bucket.count > options.max) {
+      res.setHeader('Retry-After', Math.ceil((bucket.resetAt - now) / 1000).toString());
+      return res.status(429).json({ error: options.message || 'Too many requests, please try again later' });
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,418 @@
+import crypto from 'crypto';
+import express from 'express';
+import pool from '../db/connection';
+import { hashPassword } from '../utils/password';
+import { authenticate, requireRole, AuthRequest } from '../middleware/auth';
+import { auditLog } from '../middleware/audit';
+import { revokeAllSessions } from '../services/session';
+import { createPasswordResetToken, RESET_TOKEN_EXPIRES_MINUTES } from '../services/passwordReset';
+import { sendPasswordResetEmail } from '../services/email';
+
+const router = express.Router();
+
+const VALID_ROLES = ['admin', 'management', 'recipient'];
+
+// Guests (external signers with no organization) are visible to an organization's
+// admins when they have been assigned at least one of its documents
+const GUEST_OF_ORG = `(u.org_id IS NULL AND EXISTS (
+  SELECT 1 FROM document_recipients dr
+  JOIN documents d ON dr.document_id = d.id
+  WHERE dr.recipient_id = u.id AND d.org_id = $1
+))`;
+
+async function findMember(orgId: number, userId: number) {
+  const result = await pool.query(
+    'SELECT * FROM users WHERE id = $1 AND org_id = $2',
+    [userId, orgId]
+  );
+  return result.rows[0] || null;
+}
+
+// List users with search and pagination
+router.get(
+  '/users',
+  authenticate,
+  requireRole(['admin']),
+  async (req: AuthRequest, res) => {
+    try {
+      const orgId = req.user!.orgId;
+      const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+      const search = ((req.query.search as string) || '').trim();
+      const role = req.query.role as string;
+      const status = req.query.status as string;
+
+      const conditions = [`(u.org_id = $1 OR ${GUEST_OF_ORG})`];
+      const params: any[] = [orgId];
+
+      if (search) {
+        params.push(`%${search}%`);
+        conditions.push(`(u.email ILIKE $${params.length} OR u.full_name ILIKE $${params.length})`);
+      }
+      if (role && VALID_ROLES.includes(role)) {
+        params.push(role);
+        conditions.push(`u.role = $${params.length}`);
+      }
+      if (status === 'active' || status === 'inactive') {
+        params.push(status === 'active');
+        conditions.push(`u.is_active = $${params.length}`);
+      }
+
+      const where = conditions.join(' AND ');
+
+      const countResult = await pool.query(`SELECT COUNT(*) as count FROM users u WHERE ${where}`, params);
+
+      const result = await pool.query(
+        `SELECT u.id, u.email, u.full_name, u.role, u.org_id, u.is_external, u.is_active, u.deactivated_at,
+                u.must_change_password, u.totp_enabled, u.created_at, u.updated_at
+         FROM users u
+         WHERE ${where}
+         ORDER BY u.full_name ASC, u.id ASC
+         LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+        [...params, limit, (page - 1) * limit]
+      );
+
+      const total = parseInt(countResult.rows[0].count);
+
+      res.json({
+        users: result.rows,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      });
+    } catch (error) {
+      console.error('Admin list users error:', error);
+      res.status(500).json({ error: 'Failed to list users' });
+    }
+  }
+);
+
+// Get a single user
+router.get(
+  '/users/:userId',
+  authenticate,
+  requireRole(['admin']),
+  async (req: AuthRequest, res) => {
+    try {
+      const result = await pool.query(
+        `SELECT u.id, u.email, u.full_name, u.role, u.org_id, u.is_external, u.is_active, u.deactivated_at,
+                u.merged_into_user_id, u.must_change_password, u.totp_enabled, u.created_at, u.updated_at,
+                (SELECT COUNT(*) FROM sessions s
+                 WHERE s.user_id = u.id AND s.revoked_at IS NULL AND s.expires_at > CURRENT_TIMESTAMP) as active_sessions
+         FROM users u
+         WHERE u.id = $2 AND (u.org_id = $1 OR ${GUEST_OF_ORG})`,
+        [req.user!.orgId, parseInt(req.params.userId)]
+      );
+
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      res.json({ user: result.rows[0] });
+    } catch (error) {
+      console.error('Admin get user error:', error);
+      res.status(500).json({ error: 'Failed to get user' });
+    }
+  }
+);
+
+// Change a user's role
+router.patch(
+  '/users/:userId/role',
+  authenticate,
+  requireRole(['admin']),
+  auditLog('user_role_changed'),
+  async (req: AuthRequest, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+      const { role } = req.body;
+
+      if (!role || !VALID_ROLES.includes(role)) {
+        return res.status(400).json({ error: `Role must be one of: ${VALID_ROLES.join(', ')}` });
+      }
+
+      if (userId === req.user!.userId) {
+        return res.status(400).json({ error: 'You cannot change your own role' });
+      }
+
+      const user = await findMember(req.user!.orgId!, userId);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      const result = await pool.query(
+        `UPDATE users SET role = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2
+         RETURNING id, email, full_name, role, is_active`,
+        [role, userId]
+      );
+
+      // Access tokens carry the role, so make the user sign in again
+      await revokeAllSessions(userId);
+
+      res.json({ user: result.rows[0], previous_role: user.role });
+    } catch (error) {
+      console.error('Admin change role error:', error);
+      res.status(500).json({ error: 'Failed to change role' });
+    }
+  }
+);
+
+// Deactivate a user
+router.post(
+  '/users/:userId/deactivate',
+  authenticate,
+  requireRole(['admin']),
+  auditLog('user_deactivated'),
+  async (req: AuthRequest, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+
+      if (userId === req.user!.userId) {
+        return res.status(400).json({ error: 'You cannot deactivate your own account' });
+      }
+
+      const user = await findMember(req.user!.orgId!, userId);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      if (!user.is_active) {
+        return res.status(400).json({ error: 'User is already deactivated' });
+      }
+
+      await pool.query(
+        `UPDATE users SET is_active = FALSE, deactivated_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [userId]
+      );
+      await revokeAllSessions(userId);
+
+      res.json({ message: 'User deactivated' });
+    } catch (error) {
+      console.error('Admin deactivate user error:', error);
+      res.status(500).json({ error: 'Failed to deactivate user' });
+    }
+  }
+);
+
+// Reactivate a user
+router.post(
+  '/users/:userId/reactivate',
+  authenticate,
+  requireRole(['admin']),
+  auditLog('user_reactivated'),
+  async (req: AuthRequest, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+
+      const user = await findMember(req.user!.orgId!, userId);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      if (user.is_active) {
+        return res.status(400).json({ error: 'User is already active' });
+      }
+
+      if (user.merged_into_user_id) {
+        return res.status(400).json({ error: 'Merged accounts cannot be reactivated' });
+      }
+
+      await pool.query(
+        `UPDATE users SET is_active = TRUE, deactivated_at = NULL, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [userId]
+      );
+
+      res.json({ message: 'User reactivated' });
+    } catch (error) {
+      console.error('Admin reactivate user error:', error);
+      res.status(500).json({ error: 'Failed to reactivate user' });
+    }
+  }
+);
+
+// Force a password reset: signs the user out everywhere and emails a reset link
+router.post(
+  '/users/:userId/force-password-reset',
+  authenticate,
+  requireRole(['admin']),
+  auditLog('user_password_reset_forced'),
+  async (req: AuthRequest, res) => {
+    try {
+      const userId = parseInt(req.params.userId);
+
+      const user = await findMember(req.user!.orgId!, userId);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+
+      // Swap the password for a random one nobody knows, so the old password
+      // stops working and only the emailed reset link gets the user back in
+      const unusableHash = await hashPassword(crypto.randomBytes(32).toString('hex'));
+      await pool.query(
+        `UPDATE users
+         SET password_hash = $2, must_change_password = TRUE, password_changed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [userId, unusableHash]
+      );
+      await revokeAllSessions(userId);
+
+      const token = await createPasswordResetToken(userId, req.ip || req.socket.remoteAddress);
+      if (token) {
+        await sendPasswordResetEmail(user.email, user.full_name, token, RESET_TOKEN_EXPIRES_MINUTES);
+      }
+
+      res.json({
+        message: token
+          ? 'User signed out and password reset email sent'
+          : 'User signed out; too many reset emails were sent recently, so no new email was sent',
+      });
+    } catch (error) {
+      console.error('Admin force password reset error:', error);
+      res.status(500).json({ error: 'Failed to force password reset' });
+    }
+  }
+);
+
+// Merge an auto-created external account into an existing member account.
+// Assignments, fields, signatures, saved signatures and history move to the
+// target; the external account is deactivated and remembers where it was merged to.
+router.post(
+  '/users/:userId/merge',
+  authenticate,
+  requireRole(['admin']),
+  auditLog('users_merged'),
+  async (req: AuthRequest, res) => {
+    const client = await pool.connect();
+    try {
+      const orgId = req.user!.orgId!;
+      const sourceId = parseInt(req.params.userId);
+      const targetId = parseInt(req.body.target_user_id);
+
+      if (!targetId) {
+        return res.status(400).json({ error: 'target_user_id is required' });
+      }
+
+      if (sourceId === targetId) {
+        return res.status(400).json({ error: 'Cannot merge a user into itself' });
+      }
+
+      await client.query('BEGIN');
+
+      // Locking the guest's row holds back new assignments to it (their foreign
+      // key needs a share lock on it) until the merge is done
+      const sourceResult = await client.query(
+        `SELECT u.* FROM users u WHERE u.id = $2 AND ${GUEST_OF_ORG} FOR UPDATE OF u`,
+        [orgId, sourceId]
+      );
+      if (sourceResult.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ error: 'External user not found' });
+      }
+
+      const source = sourceResult.rows[0];
+      if (!source.is_external) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ error: 'Only auto-created external accounts can be merged' });
+      }
+
+      const target = await findMember(orgId, targetId);
+      if (!target || !target.is_active) {
+        await client.query('ROLLBACK');
+        return res.status(404).json({ error: 'Target user not found' });
+      }
+
+      // A guest who also signs for other organizations can't be folded into this one
+      const foreignAssignments = await client.query(
+        `SELECT COUNT(*) as count
+         FROM document_recipients dr
+         JOIN documents d ON dr.document_id = d.id
+         WHERE dr.recipient_id = $1 AND d.org_id <> $2`,
+        [sourceId, orgId]
+      );
+      if (parseInt(foreignAssignments.rows[0].count) > 0) {
+        await client.query('ROLLBACK');
+        return res.status(409).json({ error: 'This external user has documents from other organizations and cannot be merged' });
+      }
+
+      // Where both accounts were assigned the same document, keep the target's
+      // assignment and drop everything the guest placed or signed on it
+      const sharedDocuments = 'SELECT document_id FROM document_recipients WHERE recipient_id = $2';
+      await client.query(
+        `DELETE FROM text_fields WHERE recipient_id = $1 AND document_id IN (${sharedDocuments})`,
+        [sourceId, targetId]
+      );
+      await client.query(
+        `DELETE FROM signatures WHERE recipient_id = $1 AND document_id IN (${sharedDocuments})`,
+        [sourceId, targetId]
+      );
+      await client.query(
+        `DELETE FROM document_fields WHERE recipient_id = $1 AND document_id IN (${sharedDocuments})`,
+        [sourceId, targetId]
+      );
+      await client.query(
+        `DELETE FROM document_recipients src
+         USING document_recipients tgt
+         WHERE src.recipient_id = $1 AND tgt.recipient_id = $2 AND src.document_id = tgt.document_id`,
+        [sourceId, targetId]
+      );
+      const movedAssignments = await client.query(
+        'UPDATE document_recipients SET recipient_id = $2, updated_at = CURRENT_TIMESTAMP WHERE recipient_id = $1',
+        [sourceId, targetId]
+      );
+      await client.query('UPDATE text_fields SET recipient_id = $2 WHERE recipient_id = $1', [sourceId, targetId]);
+      await client.query('UPDATE signatures SET recipient_id = $2 WHERE recipient_id = $1', [sourceId, targetId]);
+      await client.query('UPDATE document_fields SET recipient_id = $2 WHERE recipient_id = $1', [sourceId, targetId]);
+      await client.query('UPDATE audit_logs SET user_id = $2 WHERE user_id = $1', [sourceId, targetId]);
+      await client.query('UPDATE document_file_hashes SET created_by = $2 WHERE created_by = $1', [sourceId, targetId]);
+      await client.query('UPDATE document_versions SET actor_id = $2 WHERE actor_id = $1', [sourceId, targetId]);
+      await client.query('UPDATE signature_assets SET user_id = $2 WHERE user_id = $1', [sourceId, targetId]);
+
+      // Saved signatures come along, but the target's defaults stay the defaults
+      await client.query(
+        `UPDATE user_signatures src
+         SET user_id = $2,
+             is_default = src.is_default AND NOT EXISTS (
+               SELECT 1 FROM user_signatures tgt WHERE tgt.user_id = $2 AND tgt.kind = src.kind AND tgt.is_default
+             )
+         WHERE src.user_id = $1`,
+        [sourceId, targetId]
+      );
+
+      await client.query(
+        `UPDATE users
+         SET is_active = FALSE, deactivated_at = CURRENT_TIMESTAMP, merged_into_user_id = $2, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1`,
+        [sourceId, targetId]
+      );
+      await client.query(
+        'UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP WHERE user_id = $1 AND revoked_at IS NULL',
+        [sourceId]
+      );
+      await client.query(
+        `UPDATE signing_links SET revoked_at = CURRENT_TIMESTAMP
+         WHERE recipient_id = $1 AND used_at IS NULL AND revoked_at IS NULL`,
+        [sourceId]
+      );
+
+      await client.query('COMMIT');
+
+      res.json({
+        message: `Merged ${source.email} into ${target.email}`,
+        moved_assignments: movedAssignments.rowCount || 0,
+      });
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => {});
+      console.error('Admin merge users error:', error);
+      res.status(500).json({ error: 'Failed to merge users' });
+    } finally {
+      client.release();
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,107 @@
+import express from 'express';
+import { authenticate, requireRole, hasRole, AuthRequest } from '../middleware/auth';
+import { auditLog } from '../middleware/audit';
+import {
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+  API_KEY_SCOPES,
+  API_KEY_DEFAULT_EXPIRES_DAYS,
+} from '../services/apiKey';
+
+const router = express.Router();
+
+// Admins manage every key in the organization, management users only their own
+function ownerFilter(req: AuthRequest): number | undefined {
+  return hasRole(req.user!.role, 'admin') ? undefined : req.user!.userId;
+}
+
+// List API keys
+router.get('/', authenticate, requireRole(['management']), async (req: AuthRequest, res) => {
+  try {
+    const apiKeys = await listApiKeys(req.user!.orgId!, ownerFilter(req));
+    res.json({ apiKeys, availableScopes: API_KEY_SCOPES });
+  } catch (error) {
+    console.error('List API keys error:', error);
+    res.status(500).json({ error: 'Failed to list API keys' });
+  }
+});
+
+// Create an API key (the key itself is only shown in this response)
+router.post(
+  '/',
+  authenticate,
+  requireRole(['management']),
+  auditLog('api_key_created'),
+  async (req: AuthRequest, res) => {
+    try {
+      const { name, scopes, expires_in_days } = req.body;
+
+      if (!name || typeof name !== 'string' || name.trim().length < 2) {
+        return res.status(400).json({ error: 'Name must be at least 2 characters long' });
+      }
+
+      if (!Array.isArray(scopes) || scopes.length === 0) {
+        return res.status(400).json({ error: 'At least one scope is required' });
+      }
+
+      const unknownScopes = scopes.filter((scope: string) => !API_KEY_SCOPES.includes(scope));
+      if (unknownScopes.length > 0) {
+        return res.status(400).json({
+          error: `Unknown scopes: ${unknownScopes.join(', ')}. Allowed scopes: ${API_KEY_SCOPES.join(', ')}`,
+        });
+      }
+
+      // expires_in_days: null creates a key that never expires
+      let expiresAt: Date | null = null;
+      if (expires_in_days !== null) {
+        const days = expires_in_days === undefined ? API_KEY_DEFAULT_EXPIRES_DAYS : parseInt(expires_in_days);
+        if (!days || days < 1) {
+          return res.status(400).json({ error: 'expires_in_days must be a positive number or null' });
+        }
+        expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+      }
+
+      const { apiKey, key } = await createApiKey(
+        req.user!.orgId!,
+        req.user!.userId,
+        name.trim(),
+        Array.from(new Set<string>(scopes)),
+        expiresAt
+      );
+
+      res.status(201).json({
+        apiKey,
+        key,
+        message: 'Store this key securely, it will not be shown again',
+      });
+    } catch (error) {
+      console.error('Create API key error:', error);
+      res.status(500).json({ error: 'Failed to create API key' });
+    }
+  }
+);
+
+// Revoke an API key
+router.delete(
+  '/:keyId',
+  authenticate,
+  requireRole(['management']),
+  auditLog('api_key_revoked'),
+  async (req: AuthRequest, res) => {
+    try {
+      const revoked = await revokeApiKey(parseInt(req.params.keyId), req.user!.orgId!, ownerFilter(req));
+
+      if (!revoked) {
+        return res.status(404).json({ error: 'API key not found' });
+      }
+
+      res.json({ message: 'API key revoked' });
+    } catch (error) {
+      console.error('Revoke API key error:', error);
+      res.status(500).json({ error: 'Failed to revoke API key' });
+    }
+  }
+);
+
+export default router;
@@ -1,20 +1,60 @@
 import express from 'express';
 import pool from '../db/connection';
 import { hashPassword, comparePassword, generateRandomPassword } from '../utils/password';
-import { generateToken } from '../utils/jwt';
+import { generateChallengeToken, verifyChallengeToken } from '../utils/jwt';
 import { authenticate, AuthRequest } from '../middleware/auth';
-import { sendDocumentAssignmentEmail } from '../services/email';
+import {
+  createSession,
+  rotateSession,
+  reissueAccessToken,
+  revokeSession,
+  revokeSessionByRefreshToken,
+  revokeAllSessions,
+  listActiveSessions,
+} from '../services/session';
+import { isTwoFactorRequired, verifyTwoFactorCode, useRecoveryCode, consumeChallenge } from '../services/twoFactor';
+import { getLockoutSeconds, recordLoginFailure, recordLoginSuccess, unlockAccount } from '../services/loginThrottle';
+import { createOrganization } from '../services/organization';
+import { sendDocumentAssignmentEmail, sendPasswordResetEmail } from '../services/email';
+import { rateLimit } from '../middleware/rateLimit';
+import {
+  createPasswordResetToken,
+  findPasswordResetUser,
+  consumePasswordResetToken,
+  RESET_TOKEN_EXPIRES_MINUTES,
+} from '../services/passwordReset';
+import {
+  validatePassword,
+  describePasswordPolicy,
+  recordPasswordHistory,
+  setUserPassword,
+  enforcePasswordMaxAge,
+} from '../services/passwordPolicy';
+import { ChallengePayload } from '../types';
 
 const router = express.Router();
 
-// Register (for management users)
+const passwordResetLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: parseInt(process.env.PASSWORD_RESET_RATE_LIMIT || '5'),
+  message: 'Too many password reset requests, please try again later',
+});
+
+// Password rules, so clients can show them before the user submits
+router.get('/password-policy', (req, res) => {
+  res.json({ rules: describePasswordPolicy() });
+});
+
+// Register a new organization together with its first (admin) user.
+// Joining an existing organization goes through an invitation instead.
 router.post('/register', async (req, res) => {
+  const client = await pool.connect();
   try {
-    const { email, password, full_name, role } = req.body;
+    const { email, password, full_name, organization_name } = req.body;
     
     // Validation
-    if (!email || !password || !full_name) {
-      return res.status(400).json({ error: 'Email, password, and full name are required' });
+    if (!email || !password || !full_name || !organization_name) {
+      return res.status(400).json({ error: 'Email, password, full name, and organization name are required' });
     }
     
     // Email validation
@@ -24,8 +64,9 @@ router.post('/register', async (req, res) => {
     }
     
     // Password validation
-    if (password.length < 6) {
-      return res.status(400).json({ error: 'Password must be at least 6 characters long' });
+    const passwordErrors = await validatePassword(password, { email });
+    if (passwordErrors.length > 0) {
+      return res.status(400).json({ error: passwordErrors[0], details: passwordErrors });
     }
     
     // Full name validation
@@ -33,30 +74,40 @@ router.post('/register', async (req, res) => {
       return res.status(400).json({ error: 'Full name must be at least 2 characters long' });
     }
     
-    // Role validation
-    const validRoles = ['management', 'recipient'];
-    const userRole = role && validRoles.includes(role) ? role : 'management';
+    // Organization name validation
+    if (organization_name.trim().length < 2) {
+      return res.status(400).json({ error: 'Organization name must be at least 2 characters long' });
+    }
     
     // Check if user exists
-    const existingUser = await pool.query('SELECT id FROM users WHERE email = $1', [email.toLowerCase().trim()]);
+    const existingUser = await client.query('SELECT id FROM users WHERE email = $1', [email.toLowerCase().trim()]);
     if (existingUser.rows.length > 0) {
       return res.status(400).json({ error: 'User with this email already exists' });
     }
     
     const passwordHash = await hashPassword(password);
     
-    const result = await pool.query(
-      `INSERT INTO users (email, password_hash, full_name, role, is_external)
-       VALUES ($1, $2, $3, $4, $5)
-       RETURNING id, email, full_name, role, is_external, created_at`,
-      [email.toLowerCase().trim(), passwordHash, full_name.trim(), userRole, false]
+    await client.query('BEGIN');
+    
+    const organization = await createOrganization(client, organization_name);
+    
+    const result = await client.query(
+      `INSERT INTO users (email, password_hash, full_name, role, is_external, org_id)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING id, org_id, email, full_name, role, is_external, created_at`,
+      [email.toLowerCase().trim(), passwordHash, full_name.trim(), 'admin', false, organization.id]
     );
+    await recordPasswordHistory(client, result.rows[0].id, passwordHash);
+    
+    await client.query('COMMIT');
     
     res.status(201).json({ 
       message: 'Account created successfully',
-      user: result.rows[0] 
+      user: result.rows[0],
+      organization,
     });
   } catch (error: any) {
+    await client.query('ROLLBACK').catch(() => {});
     console.error('Registration error:', error);
     
     // Handle unique constraint violation
@@ -65,6 +116,8 @@ router.post('/register', async (req, res) => {
     }
     
     res.status(500).json({ error: 'Registration failed. Please try again.' });
+  } finally {
+    client.release();
   }
 });
 
@@ -77,12 +130,21 @@ router.post('/login', async (req, res) => {
       return res.status(400).json({ error: 'Email and password are required' });
     }
     
+    const lockoutSeconds = await getLockoutSeconds(email, req);
+    if (lockoutSeconds > 0) {
+      res.setHeader('Retry-After', lockoutSeconds.toString());
+      return res.status(429).json({ error: 'Too many failed login attempts. Please try again later.' });
+    }
+    
     const result = await pool.query(
-      'SELECT id, email, password_hash, full_name, role, is_external, must_change_password FROM users WHERE email = $1',
+      `SELECT id, org_id, email, password_hash, full_name, role, is_external, is_active, must_change_password, totp_enabled,
+              password_changed_at, created_at
+       FROM users WHERE email = $1`,
       [email]
     );
     
     if (result.rows.length === 0) {
+      await recordLoginFailure(email, req);
       return res.status(401).json({ error: 'Invalid credentials' });
     }
     
@@ -90,22 +152,46 @@ router.post('/login', async (req, res) => {
     const isValid = await comparePassword(password, user.password_hash);
     
     if (!isValid) {
+      await recordLoginFailure(email, req);
       return res.status(401).json({ error: 'Invalid credentials' });
     }
     
-    const token = generateToken({
-      userId: user.id,
-      email: user.email,
-      role: user.role,
-    });
+    if (user.is_active === false) {
+      return res.status(403).json({ error: 'Your account has been deactivated. Please contact your administrator.' });
+    }
+    
+    user.must_change_password = await enforcePasswordMaxAge(user);
+    
+    // Second factor: hand out a short-lived challenge instead of a session
+    if (user.totp_enabled) {
+      return res.json({
+        twoFactorRequired: true,
+        challengeToken: generateChallengeToken({ userId: user.id, purpose: 'mfa_challenge' }),
+      });
+    }
+    
+    if (await isTwoFactorRequired(user.role, user.org_id)) {
+      return res.json({
+        twoFactorSetupRequired: true,
+        challengeToken: generateChallengeToken({ userId: user.id, purpose: 'mfa_setup' }),
+      });
+    }
+    
+    // Only a completed login clears the failure count; the password alone
+    // doesn't when a second factor still has to follow
+    await recordLoginSuccess(email);
+    
+    const { token, refreshToken } = await createSession(user, req);
     
     res.json({
       token,
+      refreshToken,
       user: {
         id: user.id,
         email: user.email,
         full_name: user.full_name,
         role: user.role,
+        org_id: user.org_id,
         is_external: user.is_external,
         must_change_password: user.must_change_password,
       },
@@ -116,6 +202,161 @@ router.post('/login', async (req, res) => {
   }
 });
 
+// Second login step for accounts with 2FA enabled
+router.post('/login/2fa', async (req, res) => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+    
+    if (!challengeToken || (!code && !recoveryCode)) {
+      return res.status(400).json({ error: 'Challenge token and a verification or recovery code are required' });
+    }
+    
+    let challenge: ChallengePayload;
+    try {
+      challenge = verifyChallengeToken(challengeToken, 'mfa_challenge');
+    } catch (error) {
+      return res.status(401).json({ error: 'Invalid or expired challenge token' });
+    }
+    
+    // One attempt per challenge; another guess needs the password again
+    if (!await consumeChallenge(challenge)) {
+      return res.status(401).json({ error: 'Invalid or expired challenge token' });
+    }
+    
+    const result = await pool.query(
+      'SELECT id, org_id, email, full_name, role, is_external, is_active, must_change_password, totp_enabled FROM users WHERE id = $1',
+      [challenge.userId]
+    );
+    
+    if (result.rows.length === 0 || !result.rows[0].totp_enabled || result.rows[0].is_active === false) {
+      return res.status(401).json({ error: 'Invalid or expired challenge token' });
+    }
+    
+    const user = result.rows[0];
+    
+    const lockoutSeconds = await getLockoutSeconds(user.email, req);
+    if (lockoutSeconds > 0) {
+      res.setHeader('Retry-After', lockoutSeconds.toString());
+      return res.status(429).json({ error: 'Too many failed login attempts. Please try again later.' });
+    }
+    
+    const isValid = code
+      ? await verifyTwoFactorCode(user.id, code)
+      : await useRecoveryCode(user.id, recoveryCode);
+    
+    if (!isValid) {
+      await recordLoginFailure(user.email, req);
+      return res.status(401).json({ error: 'Invalid verification code' });
+    }
+    
+    await recordLoginSuccess(user.email);
+    
+    const { token, refreshToken } = await createSession(user, req);
+    
+    res.json({
+      token,
+      refreshToken,
+      user: {
+        id: user.id,
+        email: user.email,
+        full_name: user.full_name,
+        role: user.role,
+        org_id: user.org_id,
+        is_external: user.is_external,
+        must_change_password: user.must_change_password,
+      },
+    });
+  } catch (error) {
+    console.error('2FA login error:', error);
+    res.status(500).json({ error: 'Login failed' });
+  }
+});
+
+// Exchange a refresh token for a new access/refresh token pair
+router.post('/refresh', async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+    
+    if (!refreshToken) {
+      return res.status(400).json({ error: 'Refresh token is required' });
+    }
+    
+    const tokens = await rotateSession(refreshToken, req);
+    if (!tokens) {
+      return res.status(401).json({ error: 'Invalid or expired refresh token' });
+    }
+    
+    res.json({ token: tokens.token, refreshToken: tokens.refreshToken });
+  } catch (error) {
+    console.error('Refresh token error:', error);
+    res.status(500).json({ error: 'Failed to refresh token' });
+  }
+});
+
+// Logout (revokes the current session)
+router.post('/logout', async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+    
+    if (!refreshToken) {
+      return res.status(400).json({ error: 'Refresh token is required' });
+    }
+    
+    await revokeSessionByRefreshToken(refreshToken);
+    
+    res.json({ message: 'Logged out successfully' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Logout failed' });
+  }
+});
+
+// List my active sessions
+router.get('/sessions', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const sessions = await listActiveSessions(req.user!.userId);
+    
+    res.json({
+      sessions: sessions.map(session => ({
+        ...session,
+        is_current: session.id === req.user!.sessionId,
+      })),
+    });
+  } catch (error) {
+    console.error('List sessions error:', error);
+    res.status(500).json({ error: 'Failed to list sessions' });
+  }
+});
+
+// Revoke one of my sessions
+router.delete('/sessions/:id', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const sessionId = parseInt(req.params.id);
+    
+    const revoked = await revokeSession(sessionId, req.user!.userId);
+    if (!revoked) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+    
+    res.json({ message: 'Session revoked successfully' });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({ error: 'Failed to revoke session' });
+  }
+});
+
+// Revoke all of my sessions except the current one
+router.post('/sessions/revoke-others', authenticate, async (req: AuthRequest, res) => {
+  try {
+    await revokeAllSessions(req.user!.userId, req.user!.sessionId);
+    
+    res.json({ message: 'Other sessions revoked successfully' });
+  } catch (error) {
+    console.error('Revoke sessions error:', error);
+    res.status(500).json({ error: 'Failed to revoke sessions' });
+  }
+});
+
 // Change password
 router.post('/change-password', authenticate, async (req: AuthRequest, res) => {
   try {
@@ -126,6 +367,12 @@ router.post('/change-password', authenticate, async (req: AuthRequest, res) => {
       return res.status(400).json({ error: 'Current and new passwords are required' });
     }
     
+    const lockoutSeconds = await getLockoutSeconds(req.user!.email, req);
+    if (lockoutSeconds > 0) {
+      res.setHeader('Retry-After', lockoutSeconds.toString());
+      return res.status(429).json({ error: 'Too many failed attempts. Please try again later.' });
+    }
+    
     const result = await pool.query(
       'SELECT password_hash FROM users WHERE id = $1',
       [userId]
@@ -137,29 +384,136 @@ router.post('/change-password', authenticate, async (req: AuthRequest, res) => {
     
     const isValid = await comparePassword(currentPassword, result.rows[0].password_hash);
     if (!isValid) {
+      await recordLoginFailure(req.user!.email, req);
       return res.status(401).json({ error: 'Current password is incorrect' });
     }
     
-    const newPasswordHash = await hashPassword(newPassword);
-    await pool.query(
-      'UPDATE users SET password_hash = $1, must_change_password = FALSE, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
-      [newPasswordHash, userId]
+    await recordLoginSuccess(req.user!.email);
+    
+    const passwordErrors = await validatePassword(newPassword, { userId, email: req.user!.email });
+    if (passwordErrors.length > 0) {
+      return res.status(400).json({ error: passwordErrors[0], details: passwordErrors });
+    }
+    
+    await setUserPassword(userId, newPassword);
+    
+    // Sign out every other device; the current session gets a fresh access
+    // token because the old one predates the password change
+    await revokeAllSessions(userId, req.user!.sessionId);
+    const token = reissueAccessToken(
+      { id: userId, email: req.user!.email, role: req.user!.role, org_id: req.user!.orgId },
+      req.user!.sessionId
     );
     
-    res.json({ message: 'Password changed successfully' });
+    res.json({ message: 'Password changed successfully', token });
   } catch (error) {
     console.error('Change password error:', error);
     res.status(500).json({ error: 'Failed to change password' });
   }
 });
 
+// Request a password reset email
+router.post('/forgot-password', passwordResetLimiter, async (req, res) => {
+  // Always answer the same way so the endpoint cannot be used to discover accounts
+  const genericResponse = { message: 'If an account exists for this email, a password reset link has been sent' };
+  
+  try {
+    const { email } = req.body;
+    
+    if (!email || typeof email !== 'string') {
+      return res.status(400).json({ error: 'Email is required' });
+    }
+    
+    const result = await pool.query(
+      'SELECT id, email, full_name FROM users WHERE email = $1 AND is_active = TRUE',
+      [email.toLowerCase().trim()]
+    );
+    
+    if (result.rows.length === 0) {
+      return res.json(genericResponse);
+    }
+    
+    const user = result.rows[0];
+    const token = await createPasswordResetToken(user.id, req.ip || req.socket.remoteAddress);
+    
+    if (token) {
+      // Don't await: response time should not depend on whether the email exists
+      sendPasswordResetEmail(user.email, user.full_name, token, RESET_TOKEN_EXPIRES_MINUTES)
+        .catch(error => console.error('Password reset email error:', error));
+    }
+    
+    res.json(genericResponse);
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({ error: 'Failed to process password reset request' });
+  }
+});
+
+// Reset password with a token from the reset email
+router.post('/reset-password', passwordResetLimiter, async (req, res) => {
+  try {
+    const { token, newPassword } = req.body;
+    
+    if (!token || !newPassword) {
+      return res.status(400).json({ error: 'Token and new password are required' });
+    }
+    
+    // Validate before using up the token so the user can retry with another password
+    const resetUser = await findPasswordResetUser(token);
+    if (!resetUser) {
+      return res.status(400).json({ error: 'Invalid or expired reset token' });
+    }
+    
+    const passwordErrors = await validatePassword(newPassword, { userId: resetUser.id, email: resetUser.email });
+    if (passwordErrors.length > 0) {
+      return res.status(400).json({ error: passwordErrors[0], details: passwordErrors });
+    }
+    
+    const userId = await consumePasswordResetToken(token);
+    if (!userId) {
+      return res.status(400).json({ error: 'Invalid or expired reset token' });
+    }
+    
+    await setUserPassword(userId, newPassword);
+    
+    // Whoever had the old password should not stay signed in
+    await revokeAllSessions(userId);
+    
+    res.json({ message: 'Password reset successfully. Please log in with your new password.' });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({ error: 'Failed to reset password' });
+  }
+});
+
+// Unlock an account using the link from the lockout email
+router.post('/unlock', async (req, res) => {
+  try {
+    const { token } = req.body;
+    
+    if (!token) {
+      return res.status(400).json({ error: 'Unlock token is required' });
+    }
+    
+    const unlocked = await unlockAccount(token, req);
+    if (!unlocked) {
+      return res.status(400).json({ error: 'Invalid or expired unlock link' });
+    }
+    
+    res.json({ message: 'Account unlocked. You can now log in.' });
+  } catch (error) {
+    console.error('Unlock account error:', error);
+    res.status(500).json({ error: 'Failed to unlock account' });
+  }
+});
+
 // Get current user
 router.get('/me', authenticate, async (req: AuthRequest, res) => {
   try {
     const userId = req.user!.userId;
     
     const result = await pool.query(
-      'SELECT id, email, full_name, role, is_external, must_change_password, created_at FROM users WHERE id = $1',
+      'SELECT id, org_id, email, full_name, role, is_external, must_change_password, totp_enabled, created_at FROM users WHERE id = $1',
       [userId]
     );
     
@@ -174,11 +528,12 @@ router.get('/me', authenticate, async (req: AuthRequest, res) => {
   }
 });
 
-// Get all users (for assignment selection)
+// Get all users in my organization (for assignment selection)
 router.get('/users', authenticate, async (req: AuthRequest, res) => {
   try {
     const result = await pool.query(
-      'SELECT id, email, full_name, role, is_external FROM users ORDER BY full_name ASC'
+      'SELECT id, email, full_name, role, is_external FROM users WHERE org_id = $1 AND is_active = TRUE ORDER BY full_name ASC',
+      [req.user!.orgId]
     );
     
     res.json({ users: result.rows });
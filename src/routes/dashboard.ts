@@ -1,6 +1,7 @@
 import express from 'express';
 import pool from '../db/connection';
-import { authenticate, AuthRequest } from '../middleware/auth';
+import { authenticate, hasRole, AuthRequest } from '../middleware/auth';
+import { WAITING_ON_OTHERS } from '../services/signingOrder';
 
 const router = express.Router();
 
@@ -12,41 +13,42 @@ router.get(
     try {
       const userId = req.user!.userId;
       const userRole = req.user!.role;
+      const orgId = req.user!.orgId;
 
-      if (userRole === 'management') {
+      if (hasRole(userRole, 'management')) {
         // Management stats
         const totalDocs = await pool.query(
-          'SELECT COUNT(*) as count FROM documents WHERE uploaded_by = $1',
-          [userId]
+          'SELECT COUNT(*) as count FROM documents WHERE uploaded_by = $1 AND org_id = $2',
+          [userId, orgId]
         );
         
         const pendingSigs = await pool.query(
           `SELECT COUNT(DISTINCT dr.document_id) as count
            FROM document_recipients dr
            JOIN documents d ON dr.document_id = d.id
-           WHERE d.uploaded_by = $1 AND dr.status = 'pending'`,
-          [userId]
+           WHERE d.uploaded_by = $1 AND d.org_id = $2 AND dr.status = 'pending'`,
+          [userId, orgId]
         );
         
         const signedDocs = await pool.query(
           `SELECT COUNT(DISTINCT dr.document_id) as count
            FROM document_recipients dr
            JOIN documents d ON dr.document_id = d.id
-           WHERE d.uploaded_by = $1 AND dr.status = 'signed'`,
-          [userId]
+           WHERE d.uploaded_by = $1 AND d.org_id = $2 AND dr.status = 'signed'`,
+          [userId, orgId]
         );
         
         const waitingConfirmation = await pool.query(
           `SELECT COUNT(DISTINCT d.id) as count
            FROM documents d
            JOIN document_recipients dr ON d.id = dr.document_id
-           WHERE d.uploaded_by = $1 AND dr.status = 'signed' AND d.status = 'waiting_confirmation'`,
-          [userId]
+           WHERE d.uploaded_by = $1 AND d.org_id = $2 AND dr.status = 'signed' AND d.status = 'waiting_confirmation'`,
+          [userId, orgId]
         );
         
         const draftDocs = await pool.query(
-          'SELECT COUNT(*) as count FROM documents WHERE uploaded_by = $1 AND status = $2',
-          [userId, 'draft']
+          'SELECT COUNT(*) as count FROM documents WHERE uploaded_by = $1 AND status = $2 AND org_id = $3',
+          [userId, 'draft', orgId]
         );
         
         // Count documents sent for signing (have at least one recipient with pending/draft status)
@@ -55,9 +57,10 @@ router.get(
            FROM documents d
            JOIN document_recipients dr ON d.id = dr.document_id
            WHERE d.uploaded_by = $1 
+             AND d.org_id = $2
              AND dr.status IN ('pending', 'draft')
              AND d.status IN ('sent_for_signing', 'pending')`,
-          [userId]
+          [userId, orgId]
         );
 
         const sentBackForSigning = await pool.query(
@@ -65,9 +68,19 @@ router.get(
            FROM documents d
            JOIN document_recipients dr ON d.id = dr.document_id
            WHERE d.uploaded_by = $1 
+             AND d.org_id = $2
              AND dr.status = 'sent_back_for_signing'
              AND d.status = 'sent_back_for_signing'`,
-          [userId]
+          [userId, orgId]
+        );
+
+        // Documents where a later signing group is still waiting on an earlier one
+        const waitingOnOthers = await pool.query(
+          `SELECT COUNT(DISTINCT d.id) as count
+           FROM documents d
+           JOIN document_recipients dr ON d.id = dr.document_id
+           WHERE d.uploaded_by = $1 AND d.org_id = $2 AND ${WAITING_ON_OTHERS}`,
+          [userId, orgId]
         );
 
         // Calculate trends (simplified - compare with last month)
@@ -75,16 +88,16 @@ router.get(
         lastMonth.setMonth(lastMonth.getMonth() - 1);
         
         const totalDocsLastMonth = await pool.query(
-          'SELECT COUNT(*) as count FROM documents WHERE uploaded_by = $1 AND created_at < $2',
-          [userId, lastMonth]
+          'SELECT COUNT(*) as count FROM documents WHERE uploaded_by = $1 AND created_at < $2 AND org_id = $3',
+          [userId, lastMonth, orgId]
         );
         
         const signedDocsLastMonth = await pool.query(
           `SELECT COUNT(DISTINCT dr.document_id) as count
            FROM document_recipients dr
            JOIN documents d ON dr.document_id = d.id
-           WHERE d.uploaded_by = $1 AND dr.status = 'signed' AND dr.signed_at < $2`,
-          [userId, lastMonth]
+           WHERE d.uploaded_by = $1 AND d.org_id = $3 AND dr.status = 'signed' AND dr.signed_at < $2`,
+          [userId, lastMonth, orgId]
         );
 
         const totalDocsCount = parseInt(totalDocs.rows[0].count);
@@ -109,27 +122,51 @@ router.get(
           waitingConfirmation: parseInt(waitingConfirmation.rows[0].count),
           sentForSigning: parseInt(sentForSigning.rows[0].count),
           sentBackForSigning: parseInt(sentBackForSigning.rows[0].count),
+          waitingOnOthers: parseInt(waitingOnOthers.rows[0].count),
         });
       } else {
-        // Recipient stats - check for any user with assignments (regardless of role)
+        // Recipient stats - check for any user with assignments (regardless of role);
+        // guests without an organization see assignments from every organization.
+        // Documents whose earlier signers haven't finished count as waiting, not pending.
         const pendingDocs = await pool.query(
-          'SELECT COUNT(*) as count FROM document_recipients WHERE recipient_id = $1 AND status = $2',
-          [userId, 'pending']
+          `SELECT COUNT(*) as count
+           FROM document_recipients dr
+           JOIN documents d ON dr.document_id = d.id
+           WHERE dr.recipient_id = $1 AND dr.status = $2 AND ($3::int IS NULL OR d.org_id = $3)
+             AND NOT ${WAITING_ON_OTHERS}`,
+          [userId, 'pending', orgId]
+        );
+
+        const waitingDocs = await pool.query(
+          `SELECT COUNT(*) as count
+           FROM document_recipients dr
+           JOIN documents d ON dr.document_id = d.id
+           WHERE dr.recipient_id = $1 AND ($2::int IS NULL OR d.org_id = $2) AND ${WAITING_ON_OTHERS}`,
+          [userId, orgId]
         );
         
         const draftDocs = await pool.query(
-          'SELECT COUNT(*) as count FROM document_recipients WHERE recipient_id = $1 AND status = $2',
-          [userId, 'draft']
+          `SELECT COUNT(*) as count
+           FROM document_recipients dr
+           JOIN documents d ON dr.document_id = d.id
+           WHERE dr.recipient_id = $1 AND dr.status = $2 AND ($3::int IS NULL OR d.org_id = $3)`,
+          [userId, 'draft', orgId]
         );
         
         const signedDocs = await pool.query(
-          'SELECT COUNT(*) as count FROM document_recipients WHERE recipient_id = $1 AND status = $2',
-          [userId, 'signed']
+          `SELECT COUNT(*) as count
+           FROM document_recipients dr
+           JOIN documents d ON dr.document_id = d.id
+           WHERE dr.recipient_id = $1 AND dr.status = $2 AND ($3::int IS NULL OR d.org_id = $3)`,
+          [userId, 'signed', orgId]
         );
 
         const sentBackDocs = await pool.query(
-          'SELECT COUNT(*) as count FROM document_recipients WHERE recipient_id = $1 AND status = $2',
-          [userId, 'sent_back_for_signing']
+          `SELECT COUNT(*) as count
+           FROM document_recipients dr
+           JOIN documents d ON dr.document_id = d.id
+           WHERE dr.recipient_id = $1 AND dr.status = $2 AND ($3::int IS NULL OR d.org_id = $3)`,
+          [userId, 'sent_back_for_signing', orgId]
         );
 
         res.json({
@@ -137,6 +174,7 @@ router.get(
           draftDocuments: parseInt(draftDocs.rows[0].count),
           signedDocuments: parseInt(signedDocs.rows[0].count),
           sentBackForSigning: parseInt(sentBackDocs.rows[0].count),
+          waitingOnOthers: parseInt(waitingDocs.rows[0].count),
         });
       }
     } catch (error) {
@@ -154,9 +192,10 @@ router.get(
     try {
       const userId = req.user!.userId;
       const userRole = req.user!.role;
+      const orgId = req.user!.orgId;
       const limit = parseInt(req.query.limit as string) || 10;
 
-      if (userRole === 'management') {
+      if (hasRole(userRole, 'management')) {
         // Management activity: uploads, assignments, signatures
         const activity = await pool.query(
           `SELECT 
@@ -169,7 +208,7 @@ router.get(
             u.full_name as actor_name
            FROM documents d
            JOIN users u ON d.uploaded_by = u.id
-           WHERE d.uploaded_by = $1
+           WHERE d.uploaded_by = $1 AND d.org_id = $3
            
            UNION ALL
            
@@ -185,7 +224,7 @@ router.get(
            JOIN documents d ON dr.document_id = d.id
            JOIN users u ON d.uploaded_by = u.id
            JOIN users u2 ON dr.recipient_id = u2.id
-           WHERE d.uploaded_by = $1
+           WHERE d.uploaded_by = $1 AND d.org_id = $3
            
            UNION ALL
            
@@ -201,11 +240,11 @@ router.get(
            JOIN documents d ON dr.document_id = d.id
            JOIN users u ON d.uploaded_by = u.id
            JOIN users u2 ON dr.recipient_id = u2.id
-           WHERE d.uploaded_by = $1 AND dr.status = 'signed' AND dr.signed_at IS NOT NULL
+           WHERE d.uploaded_by = $1 AND d.org_id = $3 AND dr.status = 'signed' AND dr.signed_at IS NOT NULL
            
            ORDER BY timestamp DESC
            LIMIT $2`,
-          [userId, limit]
+          [userId, limit, orgId]
         );
 
         res.json({ activities: activity.rows });
@@ -222,11 +261,11 @@ router.get(
            FROM document_recipients dr
            JOIN documents d ON dr.document_id = d.id
            JOIN users u ON d.uploaded_by = u.id
-           WHERE dr.recipient_id = $1
+           WHERE dr.recipient_id = $1 AND ($3::int IS NULL OR d.org_id = $3)
            
            ORDER BY timestamp DESC
            LIMIT $2`,
-          [userId, limit]
+          [userId, limit, orgId]
         );
 
         res.json({ activities: activity.rows });
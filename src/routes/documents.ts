@@ -3,11 +3,29 @@ import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
 import pool from '../db/connection';
-import { authenticate, requireRole, AuthRequest } from '../middleware/auth';
-import { auditLog } from '../middleware/audit';
-import { convertWordToPDF, isWordDocument, isPDF } from '../services/documentProcessor';
-import { sendDocumentAssignmentEmail, sendDocumentForwardEmail, sendDocumentBackEmail } from '../services/email';
-import { generateRandomPassword, hashPassword } from '../utils/password';
+import { authenticate, allowApiKey, requireRole, hasRole, AuthRequest } from '../middleware/auth';
+import { auditLog, writeAuditLog } from '../middleware/audit';
+import { convertWordToPDF, isWordDocument, isPDF, WordConversionError } from '../services/documentProcessor';
+import { getPageSizes, signPDF } from '../services/pdfSigner';
+import { COORDINATE_MODES, normalizedToPoints, parseCoordinateMode, pointsToNormalized } from '../services/pageGeometry';
+import { FormFieldInfo, inspectFormFields, resolveFormFieldRefs } from '../services/acroForm';
+import { collectCompletionEvidence, renderCompletionCertificate } from '../services/completionCertificate';
+import { findFileHashMatches, recordFileHash, sha256Buffer } from '../services/fileHashes';
+import { findDocumentVersion, listDocumentVersions, recordDocumentVersion } from '../services/documentVersions';
+import {
+  sendDocumentForwardEmail,
+  sendDocumentBackEmail,
+  sendSigningLinkEmail,
+} from '../services/email';
+import { createSigningLink, SIGNING_LINK_EXPIRES_HOURS } from '../services/signingLink';
+import { findAccessibleDocument, pdfFilename, resolveStoredPath, sourceFile } from '../services/fileAccess';
+import { notifyCurrentSigners, WAITING_ON_OTHERS } from '../services/signingOrder';
+import {
+  listDocumentFields,
+  replaceDocumentFields,
+  validateFieldDefinitions,
+  linkFieldsToRecipient,
+} from '../services/documentFields';
 
 const router = express.Router();
 
@@ -42,9 +60,23 @@ const upload = multer({
   },
 });
 
+// PDFs submitted for verification are only hashed, never stored
+const verifyUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_FILE_SIZE },
+  fileFilter: (req, file, cb) => {
+    if (path.extname(file.originalname).toLowerCase() === '.pdf') {
+      cb(null, true);
+    } else {
+      cb(new Error('Only PDF documents can be verified'));
+    }
+  },
+});
+
 // Upload document
 router.post(
   '/upload',
+  allowApiKey('documents:write'),
   authenticate,
   requireRole(['management']),
   upload.single('document'),
@@ -57,26 +89,62 @@ router.post(
       
       const { title } = req.body;
       const userId = req.user!.userId;
+      const orgId = req.user!.orgId;
       
-      let filePath = req.file.path;
+      const uploadedPath = req.file.path;
+      let filePath = uploadedPath;
       let fileType: 'pdf' | 'word' = 'pdf';
       
-      // Convert Word to PDF if needed
+      // Convert Word to PDF if needed; the Word file is kept as the source
       if (isWordDocument(req.file.originalname)) {
         fileType = 'word';
         const pdfPath = filePath.replace(path.extname(filePath), '.pdf');
-        await convertWordToPDF(filePath, pdfPath);
+        try {
+          await convertWordToPDF(filePath, pdfPath);
+        } catch (conversionError) {
+          fs.rmSync(uploadedPath, { force: true });
+          if (conversionError instanceof WordConversionError) {
+            return res.status(422).json({ error: conversionError.message });
+          }
+          throw conversionError;
+        }
         filePath = pdfPath;
       }
       
       const result = await pool.query(
-        `INSERT INTO documents (title, original_filename, original_file_path, file_type, uploaded_by, status)
-         VALUES ($1, $2, $3, $4, $5, $6)
+        `INSERT INTO documents (title, original_filename, original_file_path, source_file_path, file_type, uploaded_by, status, org_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
          RETURNING *`,
-        [title || req.file.originalname, req.file.originalname, filePath, fileType, userId, 'draft']
+        [
+          title || req.file.originalname,
+          req.file.originalname,
+          filePath,
+          fileType === 'word' ? uploadedPath : null,
+          fileType,
+          userId,
+          'draft',
+          orgId,
+        ]
       );
       
-      res.status(201).json({ document: result.rows[0] });
+      // For Word uploads the converted PDF is version 1; the .docx is hashed
+      // and stays downloadable from /:id/source
+      const documentId = result.rows[0].id;
+      const converted = filePath !== uploadedPath;
+      if (converted) {
+        await recordFileHash(documentId, 'original', uploadedPath, userId);
+      }
+      await recordDocumentVersion(documentId, 'uploaded', filePath, userId, converted ? 'converted' : 'original');
+      
+      // Form fields the PDF already has can become placeholders in the prepare step
+      let formFields: FormFieldInfo[] = [];
+      try {
+        formFields = await inspectFormFields(filePath);
+      } catch (inspectError) {
+        console.error('⚠️ Failed to inspect form fields (upload still succeeded):', inspectError);
+      }
+      
+      res.status(201).json({ document: result.rows[0], form_fields: formFields });
     } catch (error) {
       console.error('Upload error:', error);
       res.status(500).json({ error: 'Failed to upload document' });
@@ -84,21 +152,64 @@ router.post(
   }
 );
 
+// Check a PDF against every file stored or generated in the organization:
+// reports whether it is a known original or signed version, which document
+// and version it is, and who had signed it
+router.post(
+  '/verify',
+  allowApiKey('documents:read'),
+  authenticate,
+  requireRole(['management']),
+  verifyUpload.single('document'),
+  async (req: AuthRequest, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: 'No file uploaded' });
+      }
+      
+      const sha256 = sha256Buffer(req.file.buffer);
+      const matches = await findFileHashMatches(sha256, req.user!.orgId);
+      
+      await writeAuditLog(req, {
+        userId: req.user!.userId,
+        apiKeyId: req.user!.apiKeyId,
+        documentId: matches[0]?.document_id,
+        action: 'verified',
+        details: { sha256, filename: req.file.originalname, matched: matches.map(m => m.document_id) },
+      });
+      
+      res.json({
+        sha256,
+        verified: matches.length > 0,
+        message: matches.length > 0
+          ? 'This file is identical to a version stored by EasySign'
+          : 'This file does not match any version stored by EasySign; it may have been altered',
+        matches,
+      });
+    } catch (error) {
+      console.error('Verify document error:', error);
+      res.status(500).json({ error: 'Failed to verify document' });
+    }
+  }
+);
+
 // Get all documents (management - only their own documents)
 router.get(
   '/',
+  allowApiKey('documents:read'),
   authenticate,
   requireRole(['management']),
   async (req: AuthRequest, res) => {
     try {
       const userId = req.user!.userId;
+      const orgId = req.user!.orgId;
       const result = await pool.query(
         `SELECT d.*, u.full_name as uploaded_by_name
          FROM documents d
          JOIN users u ON d.uploaded_by = u.id
-         WHERE d.uploaded_by = $1
+         WHERE d.uploaded_by = $1 AND d.org_id = $2
          ORDER BY d.created_at DESC`,
-        [userId]
+        [userId, orgId]
       );
       
       res.json({ documents: result.rows });
@@ -116,21 +227,26 @@ router.get(
   async (req: AuthRequest, res) => {
     try {
       const userId = req.user!.userId;
+      const orgId = req.user!.orgId;
       
+      // Guests (no organization) can receive documents from any organization
       const result = await pool.query(
         `SELECT 
           d.*, 
           dr.status as recipient_status, 
           dr.due_date, 
           dr.signed_at,
+          dr.signing_order,
+          ${WAITING_ON_OTHERS} as waiting_on_others,
           u.full_name as uploaded_by_name,
           dr.created_at as assigned_at
          FROM document_recipients dr
          JOIN documents d ON dr.document_id = d.id
          JOIN users u ON d.uploaded_by = u.id
          WHERE dr.recipient_id = $1 AND dr.status IN ('pending', 'draft')
+           AND ($2::int IS NULL OR d.org_id = $2)
          ORDER BY dr.created_at DESC`,
-        [userId]
+        [userId, orgId]
       );
       
       res.json({ documents: result.rows });
@@ -144,11 +260,13 @@ router.get(
 // Get documents waiting for confirmation (for management - documents signed by recipients)
 router.get(
   '/waiting-confirmation',
+  allowApiKey('signing:read'),
   authenticate,
   requireRole(['management']),
   async (req: AuthRequest, res) => {
     try {
       const userId = req.user!.userId;
+      const orgId = req.user!.orgId;
       
       const result = await pool.query(
         `SELECT 
@@ -162,10 +280,11 @@ router.get(
          JOIN document_recipients dr ON d.id = dr.document_id
          JOIN users u ON dr.recipient_id = u.id
          WHERE d.uploaded_by = $1 
+           AND d.org_id = $2
            AND dr.status = 'signed'
            AND d.status IN ('signed', 'waiting_confirmation')
          ORDER BY dr.signed_at DESC`,
-        [userId]
+        [userId, orgId]
       );
       
       res.json({ documents: result.rows });
@@ -179,6 +298,7 @@ router.get(
 // Confirm signed document (management approves signed document)
 router.post(
   '/:id/confirm',
+  allowApiKey('documents:write'),
   authenticate,
   requireRole(['management']),
   auditLog('confirmed'),
@@ -189,21 +309,60 @@ router.post(
       
       // Verify document belongs to this user
       const docResult = await pool.query(
-        'SELECT * FROM documents WHERE id = $1 AND uploaded_by = $2',
-        [documentId, userId]
+        'SELECT * FROM documents WHERE id = $1 AND uploaded_by = $2 AND org_id = $3',
+        [documentId, userId, req.user!.orgId]
       );
       
       if (docResult.rows.length === 0) {
         return res.status(404).json({ error: 'Document not found or access denied' });
       }
       
+      // Only documents every recipient has signed can be confirmed, and only once
+      if (!['signed', 'waiting_confirmation'].includes(docResult.rows[0].status)) {
+        return res.status(409).json({
+          error: docResult.rows[0].status === 'completed'
+            ? 'This document has already been confirmed'
+            : 'This document is still waiting for signatures',
+        });
+      }
+      
+      // Regenerate the signed PDF with the certificate of completion appended,
+      // so the evidence is part of the (sealed) final document, and flatten
+      // the PDF's own form fields so the values can't be edited any more
+      const evidence = await collectCompletionEvidence(documentId, userId);
+      const certificate = await renderCompletionCertificate(evidence);
+      
+      const [textFieldsResult, signaturesResult] = await Promise.all([
+        pool.query(
+          `SELECT tf.*, df.pdf_field_name FROM text_fields tf
+           LEFT JOIN document_fields df ON tf.field_id = df.id
+           WHERE tf.document_id = $1 AND tf.is_draft = FALSE`,
+          [documentId]
+        ),
+        pool.query('SELECT * FROM signatures WHERE document_id = $1 AND is_draft = FALSE', [documentId]),
+      ]);
+      
+      const signedFilePath = path.join(UPLOAD_DIR, 'signed', `completed-${documentId}-${Date.now()}.pdf`);
+      await signPDF(
+        docResult.rows[0].original_file_path,
+        signedFilePath,
+        textFieldsResult.rows,
+        signaturesResult.rows,
+        { appendedPdf: certificate, flattenForm: true }
+      );
+      
       // Update document status to completed
       await pool.query(
-        'UPDATE documents SET status = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
-        ['completed', documentId]
+        'UPDATE documents SET status = $1, signed_file_path = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $3',
+        ['completed', signedFilePath, documentId]
       );
+      await recordDocumentVersion(documentId, 'completed', signedFilePath, userId);
       
-      res.json({ message: 'Document confirmed and marked as completed' });
+      res.json({
+        message: 'Document confirmed and marked as completed',
+        signed_file_path: signedFilePath,
+        original_sha256: evidence.originalSha256,
+      });
     } catch (error) {
       console.error('Confirm document error:', error);
       res.status(500).json({ error: 'Failed to confirm document' });
@@ -214,17 +373,22 @@ router.post(
 // Get document by ID (with access control)
 router.get(
   '/:id',
+  allowApiKey('documents:read'),
   authenticate,
   async (req: AuthRequest, res) => {
     try {
       const documentId = parseInt(req.params.id);
       const userId = req.user!.userId;
       const userRole = req.user!.role;
+      const orgId = req.user!.orgId;
       
       console.log(`\n📄 GET /documents/${documentId} - User: ${userId} (${userRole})`);
       
-      // First check if document exists
-      const docCheck = await pool.query('SELECT id, uploaded_by FROM documents WHERE id = $1', [documentId]);
+      // First check if document exists (within my organization, unless I'm a guest)
+      const docCheck = await pool.query(
+        'SELECT id, uploaded_by FROM documents WHERE id = $1 AND ($2::int IS NULL OR org_id = $2)',
+        [documentId, orgId]
+      );
       if (docCheck.rows.length === 0) {
         console.log(`❌ Document ${documentId} does not exist`);
         return res.status(404).json({ error: 'Document not found' });
@@ -259,7 +423,8 @@ router.get(
         console.log(`✅ User ${userId} is assigned as recipient`);
         const result = await pool.query(
           `SELECT d.*, u.full_name as uploaded_by_name, 
-                  dr.status as recipient_status, dr.due_date, dr.signed_at, dr.revision_note
+                  dr.status as recipient_status, dr.due_date, dr.signed_at, dr.revision_note,
+                  dr.signing_order, ${WAITING_ON_OTHERS} as waiting_on_others
            FROM documents d
            JOIN users u ON d.uploaded_by = u.id
            JOIN document_recipients dr ON d.id = dr.document_id
@@ -282,31 +447,74 @@ router.get(
 // Assign document to recipients
 router.post(
   '/:id/assign',
+  allowApiKey('documents:write'),
   authenticate,
   requireRole(['management']),
   auditLog('assigned'),
   async (req: AuthRequest, res) => {
     try {
       const documentId = parseInt(req.params.id);
-      let { recipient_emails, due_date } = req.body;
+      let { recipient_emails, recipients, sequential, due_date, create_accounts } = req.body;
+      // External recipients sign through an emailed link; password accounts are opt-in
+      const createAccounts = create_accounts === true || create_accounts === 'true';
       
       // Handle both array and comma-separated string
       if (typeof recipient_emails === 'string') {
         recipient_emails = recipient_emails.split(',').map((e: string) => e.trim()).filter((e: string) => e);
       }
       
-      if (!recipient_emails || !Array.isArray(recipient_emails) || recipient_emails.length === 0) {
+      // Routing order: recipients sharing a signing_order sign in parallel, and
+      // each group waits for the previous ones. Either pass `recipients` with an
+      // explicit order per email, or `recipient_emails` with `sequential` to sign
+      // one after another in list order (otherwise everyone signs in parallel).
+      let routing: { email: string; signing_order: number }[];
+      if (Array.isArray(recipients) && recipients.length > 0) {
+        routing = recipients.map((r: any) => ({
+          email: typeof r === 'string' ? r : r?.email,
+          signing_order: typeof r === 'string' || r?.signing_order === undefined ? 1 : Number(r.signing_order),
+        }));
+      } else if (Array.isArray(recipient_emails) && recipient_emails.length > 0) {
+        const isSequential = sequential === true || sequential === 'true';
+        routing = recipient_emails.map((email: string, index: number) => ({
+          email,
+          signing_order: isSequential ? index + 1 : 1,
+        }));
+      } else {
         return res.status(400).json({ error: 'Recipient emails are required' });
       }
       
+      if (routing.some(r => typeof r.email !== 'string' || !r.email.trim())) {
+        return res.status(400).json({ error: 'Every recipient needs an email' });
+      }
+      if (routing.some(r => !Number.isInteger(r.signing_order) || r.signing_order < 1)) {
+        return res.status(400).json({ error: 'signing_order must be a positive whole number' });
+      }
+      
       // Get document
-      const docResult = await pool.query('SELECT * FROM documents WHERE id = $1', [documentId]);
+      const docResult = await pool.query(
+        'SELECT * FROM documents WHERE id = $1 AND org_id = $2',
+        [documentId, req.user!.orgId]
+      );
       if (docResult.rows.length === 0) {
         return res.status(404).json({ error: 'Document not found' });
       }
       
       const document = docResult.rows[0];
       
+      // Members of other organizations can't be assigned; guests (no organization) can
+      const normalizedEmails = routing.map(r => r.email.toLowerCase().trim());
+      const foreignUsers = await pool.query(
+        `SELECT email FROM users
+         WHERE email = ANY($1) AND org_id IS NOT NULL AND org_id <> $2`,
+        [normalizedEmails, document.org_id]
+      );
+      if (foreignUsers.rows.length > 0) {
+        return res.status(400).json({
+          error: 'Some recipients belong to another organization',
+          emails: foreignUsers.rows.map(row => row.email),
+        });
+      }
+      
       // Update document status to 'sent_for_signing' when assigned
       await pool.query(
         'UPDATE documents SET status = $1 WHERE id = $2',
@@ -315,7 +523,7 @@ router.post(
       
       const assignedRecipients = [];
       
-      for (const email of recipient_emails) {
+      for (const { email, signing_order } of routing) {
         // Normalize email
         const normalizedEmail = email.toLowerCase().trim();
         console.log(`\n📧 Processing assignment for: ${normalizedEmail}`);
@@ -325,22 +533,17 @@ router.post(
         let userId;
         
         if (userResult.rows.length === 0) {
-          // Create external user
-          const tempPassword = generateRandomPassword();
-          const passwordHash = await hashPassword(tempPassword);
-          
+          // Create external user. If accounts were requested, a temporary password
+          // is set and emailed once it's this recipient's turn to sign.
           const newUserResult = await pool.query(
             `INSERT INTO users (email, password_hash, full_name, role, is_external, must_change_password)
-             VALUES ($1, $2, $3, $4, $5, $6)
+             VALUES ($1, NULL, $2, $3, $4, $5)
              RETURNING *`,
-            [normalizedEmail, passwordHash, normalizedEmail.split('@')[0], 'recipient', true, true]
+            [normalizedEmail, normalizedEmail.split('@')[0], 'recipient', true, createAccounts]
           );
           
           userId = newUserResult.rows[0].id;
           console.log(`✅ Created new user: ${normalizedEmail} (ID: ${userId})`);
-          
-          // Send email with password
-          await sendDocumentAssignmentEmail(normalizedEmail, normalizedEmail.split('@')[0], document.title, documentId, tempPassword);
         } else {
           userId = userResult.rows[0].id;
           const existingUser = userResult.rows[0];
@@ -353,38 +556,46 @@ router.post(
             console.log(`   ⚠️  Note: User has role 'management' but is being assigned a document.`);
             console.log(`   They can access it via /documents/assigned/me but may not see it in recipient dashboard.`);
           }
-          
-          // Send email notification to existing user
-          try {
-            await sendDocumentAssignmentEmail(normalizedEmail, existingUser.full_name, document.title, documentId);
-          } catch (emailError) {
-            console.error('Email notification failed for existing user:', emailError);
-            // Continue even if email fails
-          }
         }
         
-        // Create or update assignment
+        // Create or update assignment (notification happens below, once it's their turn)
         const assignResult = await pool.query(
-          `INSERT INTO document_recipients (document_id, recipient_id, due_date, status)
-           VALUES ($1, $2, $3, $4)
-           ON CONFLICT (document_id, recipient_id) DO UPDATE SET due_date = $3, status = $4, updated_at = CURRENT_TIMESTAMP
+          `INSERT INTO document_recipients (document_id, recipient_id, due_date, status, signing_order)
+           VALUES ($1, $2, $3, $4, $5)
+           ON CONFLICT (document_id, recipient_id) DO UPDATE
+             SET due_date = $3, status = $4, signing_order = $5, notified_at = NULL, updated_at = CURRENT_TIMESTAMP
            RETURNING *`,
-          [documentId, userId, due_date || null, 'pending']
+          [documentId, userId, due_date || null, 'pending', signing_order]
         );
         
         console.log(`✅ Assigned document ${documentId} ("${document.title}") to user ${userId} (${normalizedEmail})`);
         console.log(`   Assignment Status: ${assignResult.rows[0].status}`);
         console.log(`   Assignment ID: ${assignResult.rows[0].id}`);
         console.log(`   Recipient ID in assignment: ${assignResult.rows[0].recipient_id}`);
+        console.log(`   Signing order: ${signing_order}`);
         
-        assignedRecipients.push({ email: normalizedEmail, userId });
+        // Placeholders prepared for this email now belong to the recipient
+        await linkFieldsToRecipient(documentId, normalizedEmail, userId);
+        
+        assignedRecipients.push({ email: normalizedEmail, userId, signing_order });
       }
       
+      // External recipients get a single-use signing link, everyone else a login
+      // link; later groups are notified when the group before them has signed
+      const notified = await notifyCurrentSigners(documentId, req.user!.userId);
+      
       console.log(`\n✅ Total assignments completed: ${assignedRecipients.length}`);
       console.log(`📋 Assignment summary:`, assignedRecipients.map(r => ({ email: r.email, userId: r.userId })));
       console.log('');
       
-      res.json({ message: 'Document assigned successfully', recipients: assignedRecipients });
+      res.json({
+        message: 'Document assigned successfully',
+        recipients: assignedRecipients.map(r => ({
+          ...r,
+          notified: notified.includes(r.userId),
+          waiting_on_others: !notified.includes(r.userId),
+        })),
+      });
     } catch (error) {
       console.error('Assign document error:', error);
       res.status(500).json({ error: 'Failed to assign document' });
@@ -392,6 +603,246 @@ router.post(
   }
 );
 
+// Get signing status of each recipient (document owner only)
+router.get(
+  '/:id/recipients',
+  allowApiKey('signing:read'),
+  authenticate,
+  requireRole(['management']),
+  async (req: AuthRequest, res) => {
+    try {
+      const documentId = parseInt(req.params.id);
+
+      const docResult = await pool.query(
+        'SELECT id, status FROM documents WHERE id = $1 AND uploaded_by = $2 AND org_id = $3',
+        [documentId, req.user!.userId, req.user!.orgId]
+      );
+
+      if (docResult.rows.length === 0) {
+        return res.status(404).json({ error: 'Document not found or access denied' });
+      }
+
+      const result = await pool.query(
+        `SELECT dr.recipient_id, u.email, u.full_name, u.is_external, dr.status, dr.due_date, dr.signed_at,
+                dr.signing_order, ${WAITING_ON_OTHERS} as waiting_on_others, dr.notified_at,
+                dr.created_at as assigned_at, dr.updated_at
+         FROM document_recipients dr
+         JOIN users u ON dr.recipient_id = u.id
+         WHERE dr.document_id = $1
+         ORDER BY dr.signing_order ASC, dr.created_at ASC`,
+        [documentId]
+      );
+
+      res.json({ document_status: docResult.rows[0].status, recipients: result.rows });
+    } catch (error) {
+      console.error('Get document recipients error:', error);
+      res.status(500).json({ error: 'Failed to get document recipients' });
+    }
+  }
+);
+
+// List the form fields the PDF itself contains, to map onto recipients as
+// placeholders (PUT /:id/fields with pdf_field)
+router.get(
+  '/:id/form-fields',
+  allowApiKey('documents:read'),
+  authenticate,
+  requireRole(['management']),
+  async (req: AuthRequest, res) => {
+    try {
+      const documentId = parseInt(req.params.id);
+
+      const docResult = await pool.query(
+        'SELECT id, original_file_path FROM documents WHERE id = $1 AND uploaded_by = $2 AND org_id = $3',
+        [documentId, req.user!.userId, req.user!.orgId]
+      );
+
+      if (docResult.rows.length === 0) {
+        return res.status(404).json({ error: 'Document not found or access denied' });
+      }
+
+      const coordinates = parseCoordinateMode(req.query.coordinates);
+      if (!coordinates) {
+        return res.status(400).json({ error: `coordinates must be one of: ${COORDINATE_MODES.join(', ')}` });
+      }
+
+      const formFields = await inspectFormFields(docResult.rows[0].original_file_path);
+      if (coordinates === 'normalized') {
+        const pageSizes = await getPageSizes(docResult.rows[0].original_file_path);
+        return res.json({
+          coordinates,
+          form_fields: formFields.map(formField => ({
+            ...formField,
+            widgets: pointsToNormalized(formField.widgets, pageSizes),
+          })),
+        });
+      }
+      res.json({ coordinates, form_fields: formFields });
+    } catch (error) {
+      console.error('Get form fields error:', error);
+      res.status(500).json({ error: 'Failed to get form fields' });
+    }
+  }
+);
+
+// Get the fields prepared for recipients (document owner only)
+router.get(
+  '/:id/fields',
+  allowApiKey('documents:read'),
+  authenticate,
+  requireRole(['management']),
+  async (req: AuthRequest, res) => {
+    try {
+      const documentId = parseInt(req.params.id);
+
+      const docResult = await pool.query(
+        'SELECT id, original_file_path FROM documents WHERE id = $1 AND uploaded_by = $2 AND org_id = $3',
+        [documentId, req.user!.userId, req.user!.orgId]
+      );
+
+      if (docResult.rows.length === 0) {
+        return res.status(404).json({ error: 'Document not found or access denied' });
+      }
+
+      const coordinates = parseCoordinateMode(req.query.coordinates);
+      if (!coordinates) {
+        return res.status(400).json({ error: `coordinates must be one of: ${COORDINATE_MODES.join(', ')}` });
+      }
+
+      const fields = await listDocumentFields(documentId);
+      if (coordinates === 'normalized') {
+        const pageSizes = await getPageSizes(docResult.rows[0].original_file_path);
+        return res.json({ coordinates, fields: pointsToNormalized(fields, pageSizes) });
+      }
+      res.json({ coordinates, fields });
+    } catch (error) {
+      console.error('Get document fields error:', error);
+      res.status(500).json({ error: 'Failed to get document fields' });
+    }
+  }
+);
+
+// Prepare step: define where each recipient signs and fills in text. Replaces
+// the whole layout, and only while the document is still a draft.
+router.put(
+  '/:id/fields',
+  allowApiKey('documents:write'),
+  authenticate,
+  requireRole(['management']),
+  auditLog('fields_prepared'),
+  async (req: AuthRequest, res) => {
+    try {
+      const documentId = parseInt(req.params.id);
+
+      const docResult = await pool.query(
+        'SELECT id, status, original_file_path FROM documents WHERE id = $1 AND uploaded_by = $2 AND org_id = $3',
+        [documentId, req.user!.userId, req.user!.orgId]
+      );
+
+      if (docResult.rows.length === 0) {
+        return res.status(404).json({ error: 'Document not found or access denied' });
+      }
+      if (docResult.rows[0].status !== 'draft') {
+        return res.status(400).json({ error: 'Fields can only be changed while the document is a draft' });
+      }
+
+      const coordinates = parseCoordinateMode(req.body.coordinates);
+      if (!coordinates) {
+        return res.status(400).json({ error: `coordinates must be one of: ${COORDINATE_MODES.join(', ')}` });
+      }
+
+      // Fields that name one of the PDF's form fields (pdf_field) take its place
+      const formFields = await inspectFormFields(docResult.rows[0].original_file_path);
+      const referenced = resolveFormFieldRefs(req.body.fields, formFields);
+      if (referenced.errors.length > 0) {
+        return res.status(400).json({ error: referenced.errors[0], details: referenced.errors });
+      }
+
+      // Fields are checked against the real page count (and initials can span every page)
+      const pageSizes = await getPageSizes(docResult.rows[0].original_file_path);
+      const validated = validateFieldDefinitions(referenced.fields, pageSizes.length);
+      if (validated.errors.length > 0) {
+        return res.status(400).json({ error: validated.errors[0], details: validated.errors });
+      }
+
+      // Normalized rectangles are stored in points of the page they're on
+      // (form field rectangles come from the PDF in points already)
+      let definitions = validated.fields;
+      if (coordinates === 'normalized') {
+        const converted = normalizedToPoints(definitions.filter(field => !field.pdf_field_name), pageSizes, 'Field');
+        if (converted.errors.length > 0) {
+          return res.status(400).json({ error: converted.errors[0], details: converted.errors });
+        }
+        let next = 0;
+        definitions = definitions.map(field => (field.pdf_field_name ? field : converted.items[next++]));
+      }
+
+      const fields = await replaceDocumentFields(documentId, definitions);
+      res.json({ message: 'Fields saved', fields });
+    } catch (error) {
+      console.error('Save document fields error:', error);
+      res.status(500).json({ error: 'Failed to save document fields' });
+    }
+  }
+);
+
+// Send an external recipient a new signing link (the previous one stops working)
+router.post(
+  '/:id/recipients/:recipientId/resend-link',
+  allowApiKey('documents:write'),
+  authenticate,
+  requireRole(['management']),
+  auditLog('signing_link_resent'),
+  async (req: AuthRequest, res) => {
+    try {
+      const documentId = parseInt(req.params.id);
+      const recipientId = parseInt(req.params.recipientId);
+
+      const result = await pool.query(
+        `SELECT d.title, u.email, u.full_name, u.is_external, u.is_active, dr.status,
+                ${WAITING_ON_OTHERS} as waiting_on_others
+         FROM documents d
+         JOIN document_recipients dr ON d.id = dr.document_id
+         JOIN users u ON dr.recipient_id = u.id
+         WHERE d.id = $1 AND dr.recipient_id = $2 AND d.org_id = $3`,
+        [documentId, recipientId, req.user!.orgId]
+      );
+
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: 'Assignment not found' });
+      }
+
+      const assignment = result.rows[0];
+      if (!assignment.is_external) {
+        return res.status(400).json({ error: 'Signing links are only sent to external recipients' });
+      }
+      if (!assignment.is_active) {
+        return res.status(400).json({ error: 'Recipient account is deactivated' });
+      }
+      if (assignment.status === 'signed') {
+        return res.status(400).json({ error: 'Recipient has already signed this document' });
+      }
+      if (assignment.waiting_on_others) {
+        return res.status(400).json({ error: 'Recipient is waiting on earlier signers and will be notified when it is their turn' });
+      }
+
+      const signingToken = await createSigningLink(documentId, recipientId, req.user!.userId);
+      await sendSigningLinkEmail(
+        assignment.email,
+        assignment.full_name,
+        assignment.title,
+        signingToken,
+        SIGNING_LINK_EXPIRES_HOURS
+      );
+
+      res.json({ message: `A new signing link was sent to ${assignment.email}` });
+    } catch (error) {
+      console.error('Resend signing link error:', error);
+      res.status(500).json({ error: 'Failed to resend signing link' });
+    }
+  }
+);
+
 // Get documents assigned to current user
 router.get(
   '/assigned/me',
@@ -399,16 +850,18 @@ router.get(
   async (req: AuthRequest, res) => {
     try {
       const userId = req.user!.userId;
+      const orgId = req.user!.orgId;
       
       const result = await pool.query(
         `SELECT d.*, dr.status as recipient_status, dr.due_date, dr.signed_at,
+                dr.signing_order, ${WAITING_ON_OTHERS} as waiting_on_others,
                 u.full_name as uploaded_by_name, dr.created_at as assigned_at
          FROM documents d
          JOIN document_recipients dr ON d.id = dr.document_id
          JOIN users u ON d.uploaded_by = u.id
-         WHERE dr.recipient_id = $1
+         WHERE dr.recipient_id = $1 AND ($2::int IS NULL OR d.org_id = $2)
          ORDER BY dr.created_at DESC`,
-        [userId]
+        [userId, orgId]
       );
       
       console.log(`📋 Found ${result.rows.length} documents assigned to user ${userId}`);
@@ -424,10 +877,125 @@ router.get(
   }
 );
 
+// List every version of a document (owner and recipients)
+router.get(
+  '/:id/versions',
+  allowApiKey('documents:read'),
+  authenticate,
+  async (req: AuthRequest, res) => {
+    try {
+      const documentId = parseInt(req.params.id);
+      const document = await findAccessibleDocument(documentId, req.user!.userId, req.user!.orgId);
+      
+      if (!document) {
+        return res.status(404).json({ error: 'Document not found or access denied' });
+      }
+      
+      const versions = await listDocumentVersions(documentId);
+      res.json({ versions });
+    } catch (error) {
+      console.error('Get document versions error:', error);
+      res.status(500).json({ error: 'Failed to get document versions' });
+    }
+  }
+);
+
+// Download a specific version of a document
+router.get(
+  '/:id/versions/:versionId/download',
+  allowApiKey('documents:read'),
+  authenticate,
+  async (req: AuthRequest, res) => {
+    try {
+      const documentId = parseInt(req.params.id);
+      const versionId = parseInt(req.params.versionId);
+      const document = await findAccessibleDocument(documentId, req.user!.userId, req.user!.orgId);
+      
+      if (!document) {
+        return res.status(404).json({ error: 'Document not found or access denied' });
+      }
+      
+      const version = await findDocumentVersion(documentId, versionId);
+      if (!version) {
+        return res.status(404).json({ error: 'Version not found' });
+      }
+      
+      if (version.file_deleted_at) {
+        return res.status(410).json({ error: 'This version is past the retention period and its file has been deleted' });
+      }
+      
+      const absolutePath = resolveStoredPath(version.file_path);
+      if (!fs.existsSync(absolutePath)) {
+        return res.status(404).json({ error: 'Version file not found' });
+      }
+      
+      await writeAuditLog(req, {
+        userId: req.user!.userId,
+        apiKeyId: req.user!.apiKeyId,
+        documentId,
+        action: 'downloaded',
+        details: { version_id: version.id, version_number: version.version_number },
+      });
+      
+      const filename = document.original_filename.replace(/(\.[^.]*)?$/, `-v${version.version_number}.pdf`);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="${filename}"`);
+      res.sendFile(absolutePath);
+    } catch (error) {
+      console.error('Download document version error:', error);
+      res.status(500).json({ error: 'Failed to download document version' });
+    }
+  }
+);
+
+// Download the Word file a document was converted from
+router.get(
+  '/:id/source',
+  allowApiKey('documents:read'),
+  authenticate,
+  async (req: AuthRequest, res) => {
+    try {
+      const documentId = parseInt(req.params.id);
+      const document = await findAccessibleDocument(documentId, req.user!.userId, req.user!.orgId);
+      
+      if (!document) {
+        return res.status(404).json({ error: 'Document not found or access denied' });
+      }
+      
+      const source = sourceFile(document);
+      if (!source) {
+        return res.status(404).json({ error: 'This document was not uploaded as a Word file' });
+      }
+      
+      const absolutePath = resolveStoredPath(source.filePath);
+      if (!fs.existsSync(absolutePath)) {
+        return res.status(404).json({ error: 'Source file not found' });
+      }
+      
+      await writeAuditLog(req, {
+        userId: req.user!.userId,
+        apiKeyId: req.user!.apiKeyId,
+        documentId,
+        action: 'downloaded',
+        details: { kind: 'source' },
+      });
+      
+      res.setHeader('Content-Type', source.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${source.filename}"`);
+      res.sendFile(absolutePath);
+    } catch (error) {
+      console.error('Download source document error:', error);
+      res.status(500).json({ error: 'Failed to download source document' });
+    }
+  }
+);
+
 // Download document
 router.get(
   '/:id/download',
+  allowApiKey('documents:read'),
   authenticate,
+  auditLog('downloaded'),
   async (req: AuthRequest, res) => {
     try {
       const documentId = parseInt(req.params.id);
@@ -440,49 +1008,17 @@ router.get(
         userRole,
       });
 
-      // First check basic document existence and owner
-      const docCheck = await pool.query(
-        'SELECT * FROM documents WHERE id = $1',
-        [documentId]
-      );
+      // The owner (management uploading the doc) and assigned recipients,
+      // regardless of their role, may download
+      const document = await findAccessibleDocument(documentId, userId, req.user!.orgId);
 
-      if (docCheck.rows.length === 0) {
-        console.error(`❌ Document ${documentId} does not exist`);
-        return res.status(404).json({ error: 'Document not found' });
-      }
-
-      const document = docCheck.rows[0];
-      const docOwner = document.uploaded_by;
-      console.log(`   Document owner: ${docOwner}`);
-
-      // Allow access if user is owner (management uploading the doc)
-      if (docOwner === userId) {
-        console.log(`✅ User ${userId} is the owner, download allowed`);
-      } else {
-        // Otherwise require that the user is an assigned recipient,
-        // regardless of their role (management or recipient).
-        const assignmentCheck = await pool.query(
-          `SELECT dr.* FROM document_recipients dr 
-           WHERE dr.document_id = $1 AND dr.recipient_id = $2`,
-          [documentId, userId]
-        );
-
-        console.log(
-          `   Assignment check for download: ${assignmentCheck.rows.length} assignments found`
-        );
-
-        if (assignmentCheck.rows.length === 0) {
-          console.error(
-            `❌ User ${userId} has no access to document ${documentId} for download`
-          );
-          return res
-            .status(404)
-            .json({ error: 'Document not found or access denied' });
-        }
-
-        console.log(
-          `✅ User ${userId} is assigned as recipient, download allowed`
+      if (!document) {
+        console.error(
+          `❌ User ${userId} has no access to document ${documentId} for download`
         );
+        return res
+          .status(404)
+          .json({ error: 'Document not found or access denied' });
       }
       
       const filePath = document.signed_file_path || document.original_file_path;
@@ -523,7 +1059,7 @@ router.get(
       
       // Set proper headers for PDF viewing/streaming
       res.setHeader('Content-Type', 'application/pdf');
-      res.setHeader('Content-Disposition', `inline; filename="${document.original_filename}"`);
+      res.setHeader('Content-Disposition', `inline; filename="${pdfFilename(document)}"`);
       res.setHeader('Content-Length', stats.size.toString());
       res.setHeader('Accept-Ranges', 'bytes');
       
@@ -555,6 +1091,7 @@ router.get(
 // Forward document to other users
 router.post(
   '/:id/forward',
+  allowApiKey('documents:write'),
   authenticate,
   requireRole(['management']),
   auditLog('forwarded'),
@@ -562,6 +1099,7 @@ router.post(
     try {
       const documentId = parseInt(req.params.id);
       const userId = req.user!.userId;
+      const orgId = req.user!.orgId;
       const { userIds, ccEmails, externalEmails } = req.body;
 
       // Validate input
@@ -571,8 +1109,8 @@ router.post(
 
       // Verify document belongs to this user
       const docResult = await pool.query(
-        'SELECT * FROM documents WHERE id = $1 AND uploaded_by = $2',
-        [documentId, userId]
+        'SELECT * FROM documents WHERE id = $1 AND uploaded_by = $2 AND org_id = $3',
+        [documentId, userId, orgId]
       );
 
       if (docResult.rows.length === 0) {
@@ -602,7 +1140,7 @@ router.post(
       if (userIds && userIds.length > 0) {
         for (const recipientId of userIds) {
           try {
-            const userResult = await pool.query('SELECT * FROM users WHERE id = $1', [recipientId]);
+            const userResult = await pool.query('SELECT * FROM users WHERE id = $1 AND org_id = $2', [recipientId, orgId]);
             if (userResult.rows.length > 0) {
               const recipient = userResult.rows[0];
               
@@ -631,7 +1169,7 @@ router.post(
       if (ccEmails && ccEmails.length > 0) {
         for (const email of ccEmails) {
           try {
-            const userResult = await pool.query('SELECT * FROM users WHERE email = $1', [email]);
+            const userResult = await pool.query('SELECT * FROM users WHERE email = $1 AND org_id = $2', [email, orgId]);
             if (userResult.rows.length > 0) {
               const recipient = userResult.rows[0];
               
@@ -706,6 +1244,7 @@ router.post(
 // Send document back to signer
 router.post(
   '/:id/send-back',
+  allowApiKey('documents:write'),
   authenticate,
   requireRole(['management']),
   auditLog('sent_back'),
@@ -721,8 +1260,8 @@ router.post(
 
       // Verify document belongs to this user
       const docResult = await pool.query(
-        'SELECT * FROM documents WHERE id = $1 AND uploaded_by = $2',
-        [documentId, userId]
+        'SELECT * FROM documents WHERE id = $1 AND uploaded_by = $2 AND org_id = $3',
+        [documentId, userId, req.user!.orgId]
       );
 
       if (docResult.rows.length === 0) {
@@ -769,14 +1308,18 @@ router.post(
         ['sent_back_for_signing', documentId]
       );
 
-      // Send email notification
+      // Send email notification (external signers need a new link to get back in)
+      const signingToken = signer.is_external
+        ? await createSigningLink(documentId, signer.id, userId)
+        : undefined;
       await sendDocumentBackEmail(
         signer.email,
         signer.full_name,
         sender.full_name,
         document.title,
         note,
-        documentId
+        documentId,
+        signingToken
       );
 
       res.json({ message: 'Document sent back to signer successfully' });
@@ -797,6 +1340,7 @@ router.get(
     try {
       const userId = req.user!.userId;
       const userRole = req.user!.role;
+      const orgId = req.user!.orgId;
       
       // Check if revision_note column exists
       const columnCheck = await pool.query(`
@@ -807,7 +1351,7 @@ router.get(
       `);
       const hasRevisionNote = columnCheck.rows.length > 0;
 
-      if (userRole === 'management') {
+      if (hasRole(userRole, 'management')) {
         // For management: Get documents they sent back
         const revisionNoteSelect = hasRevisionNote ? 'dr.revision_note,' : 'NULL as revision_note,';
         const result = await pool.query(
@@ -823,10 +1367,11 @@ router.get(
            JOIN document_recipients dr ON d.id = dr.document_id
            JOIN users u ON dr.recipient_id = u.id
            WHERE d.uploaded_by = $1 
+             AND d.org_id = $2
              AND dr.status = 'sent_back_for_signing'
              AND d.status = 'sent_back_for_signing'
            ORDER BY dr.updated_at DESC`,
-          [userId]
+          [userId, orgId]
         );
         
         res.json({ documents: result.rows });
@@ -845,10 +1390,11 @@ router.get(
            JOIN document_recipients dr ON d.id = dr.document_id
            JOIN users u ON d.uploaded_by = u.id
            WHERE dr.recipient_id = $1 
+             AND ($2::int IS NULL OR d.org_id = $2)
              AND dr.status = 'sent_back_for_signing'
              AND d.status = 'sent_back_for_signing'
            ORDER BY dr.updated_at DESC`,
-          [userId]
+          [userId, orgId]
         );
         
         res.json({ documents: result.rows });
@@ -901,10 +1447,11 @@ router.get(
          JOIN users u ON d.uploaded_by = u.id
          WHERE dr.recipient_id = $1 
            AND d.uploaded_by != $1
+           AND ($2::int IS NULL OR d.org_id = $2)
            AND dr.status = 'sent_back_for_signing'
            AND d.status = 'sent_back_for_signing'
          ORDER BY dr.updated_at DESC`,
-        [userId]
+        [userId, req.user!.orgId]
       );
       
       res.json({ documents: result.rows });
@@ -0,0 +1,104 @@
+import express from 'express';
+import fs from 'fs';
+import pool from '../db/connection';
+import { allowApiKey, authenticate, AuthRequest } from '../middleware/auth';
+import { writeAuditLog } from '../middleware/audit';
+import {
+  createFileUrl,
+  verifyFileUrl,
+  findAccessibleFile,
+  resolveStoredPath,
+  FILE_KINDS,
+} from '../services/fileAccess';
+
+const router = express.Router();
+
+// Issue a short-lived URL for an original document, a signed PDF or a signature image
+router.post(
+  '/urls',
+  allowApiKey('documents:read'),
+  authenticate,
+  async (req: AuthRequest, res) => {
+    try {
+      const { kind } = req.body;
+      const resourceId = parseInt(req.body.id);
+
+      if (!FILE_KINDS.includes(kind) || isNaN(resourceId)) {
+        return res.status(400).json({ error: `Kind must be one of: ${FILE_KINDS.join(', ')}, and id is required` });
+      }
+
+      const file = await findAccessibleFile(kind, resourceId, req.user!.userId, req.user!.orgId);
+      if (!file) {
+        return res.status(404).json({ error: 'File not found or access denied' });
+      }
+
+      const fileUrl = createFileUrl(kind, resourceId, req.user!.userId);
+
+      await writeAuditLog(req, {
+        userId: req.user!.userId,
+        apiKeyId: req.user!.apiKeyId,
+        documentId: file.documentId,
+        action: 'file_url_issued',
+        details: { kind, id: resourceId, expires_at: fileUrl.expires_at },
+      });
+
+      res.json(fileUrl);
+    } catch (error) {
+      console.error('Issue file URL error:', error);
+      res.status(500).json({ error: 'Failed to issue file URL' });
+    }
+  }
+);
+
+// Fetch a file through a signed URL. No Authorization header is needed; the
+// signature identifies the user, whose access is checked again here.
+router.get('/:kind/:resourceId', async (req, res) => {
+  try {
+    const params = {
+      kind: req.params.kind,
+      resourceId: parseInt(req.params.resourceId),
+      userId: parseInt(req.query.user as string),
+      expires: parseInt(req.query.expires as string),
+    };
+
+    if (!verifyFileUrl(params, String(req.query.signature || ''))) {
+      return res.status(403).json({ error: 'This link is invalid or has expired' });
+    }
+
+    const userResult = await pool.query(
+      'SELECT id, org_id, is_active FROM users WHERE id = $1',
+      [params.userId]
+    );
+    const user = userResult.rows[0];
+    if (!user || !user.is_active) {
+      return res.status(403).json({ error: 'This link is invalid or has expired' });
+    }
+
+    const file = await findAccessibleFile(params.kind, params.resourceId, user.id, user.org_id);
+    if (!file) {
+      return res.status(404).json({ error: 'File not found or access denied' });
+    }
+
+    const absolutePath = resolveStoredPath(file.filePath);
+    if (!fs.existsSync(absolutePath)) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    await writeAuditLog(req, {
+      userId: user.id,
+      documentId: file.documentId,
+      action: 'file_accessed',
+      details: { kind: params.kind, id: params.resourceId },
+    });
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `inline; filename="${file.filename}"`);
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.sendFile(absolutePath);
+  } catch (error) {
+    console.error('Get file error:', error);
+    res.status(500).json({ error: 'Failed to get file' });
+  }
+});
+
+export default router;
@@ -0,0 +1,93 @@
+import express from 'express';
+import { writeAuditLog } from '../middleware/audit';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { createSession } from '../services/session';
+import {
+  findProviderByOrgSlug,
+  beginLogin,
+  completeLogin,
+  provisionUser,
+  OidcLoginError,
+} from '../services/oidc';
+
+const router = express.Router();
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+function redirectWithError(res: express.Response, message: string) {
+  res.redirect(`${FRONTEND_URL}/login?sso_error=${encodeURIComponent(message)}`);
+}
+
+// Start single sign-on for an organization (browser navigates here)
+router.get('/:orgSlug/login', async (req, res) => {
+  try {
+    const provider = await findProviderByOrgSlug(req.params.orgSlug);
+    if (!provider) {
+      return res.status(404).json({ error: 'Single sign-on is not configured for this organization' });
+    }
+
+    res.redirect(await beginLogin(provider));
+  } catch (error) {
+    console.error('OIDC login error:', error);
+    res.status(502).json({ error: 'Could not reach the identity provider' });
+  }
+});
+
+// Link single sign-on to the signed-in account. Returns the IdP URL to send
+// the browser to; the callback then links the identity instead of looking the
+// user up by email.
+router.post('/:orgSlug/link', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const provider = await findProviderByOrgSlug(req.params.orgSlug);
+    if (!provider) {
+      return res.status(404).json({ error: 'Single sign-on is not configured for this organization' });
+    }
+
+    res.json({ url: await beginLogin(provider, req.user!.userId) });
+  } catch (error) {
+    console.error('OIDC link error:', error);
+    res.status(502).json({ error: 'Could not reach the identity provider' });
+  }
+});
+
+// Identity provider redirects back here with the authorization code
+router.get('/callback', async (req, res) => {
+  try {
+    const { code, state, error, error_description } = req.query as Record<string, string | undefined>;
+
+    if (error) {
+      return redirectWithError(res, error_description || error);
+    }
+
+    if (!code || !state) {
+      return redirectWithError(res, 'Sign-in response is missing the code or state');
+    }
+
+    const { provider, claims, linkUserId } = await completeLogin(code, state);
+    const user = await provisionUser(provider, claims, linkUserId);
+
+    if (user.is_active === false) {
+      return redirectWithError(res, 'Your account has been deactivated. Please contact your administrator.');
+    }
+
+    const { token, refreshToken } = await createSession(user, req);
+
+    await writeAuditLog(req, {
+      userId: user.id,
+      action: linkUserId ? 'sso_linked' : 'sso_login',
+      details: { issuer: provider.issuer, groups: claims.groups, role: user.role },
+    });
+
+    // Tokens travel in the fragment so they never reach server logs
+    const fragment = new URLSearchParams({ token, refreshToken });
+    res.redirect(`${FRONTEND_URL}/sso/callback#${fragment.toString()}`);
+  } catch (error) {
+    if (error instanceof OidcLoginError) {
+      return redirectWithError(res, error.message);
+    }
+    console.error('OIDC callback error:', error);
+    redirectWithError(res, 'Single sign-on failed');
+  }
+});
+
+export default router;
@@ -0,0 +1,411 @@
+import express from 'express';
+import pool from '../db/connection';
+import { hashPassword } from '../utils/password';
+import { authenticate, requireRole, hasRole, AuthRequest } from '../middleware/auth';
+import { auditLog, writeAuditLog } from '../middleware/audit';
+import { sendOrganizationInvitationEmail } from '../services/email';
+import { createInvitation, findPendingInvitation, INVITATION_EXPIRES_DAYS } from '../services/organization';
+import { validatePassword, recordPasswordHistory } from '../services/passwordPolicy';
+import { getDiscovery, saveProvider, OidcProvider, OIDC_REDIRECT_URI } from '../services/oidc';
+import { revokeSessionsLackingTwoFactor } from '../services/twoFactor';
+
+const router = express.Router();
+
+// Get my organization
+router.get('/current', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const orgId = req.user!.orgId;
+
+    if (!orgId) {
+      return res.status(404).json({ error: 'You are not a member of an organization' });
+    }
+
+    const result = await pool.query(
+      `SELECT o.*, (SELECT COUNT(*) FROM users u WHERE u.org_id = o.id) as member_count
+       FROM organizations o
+       WHERE o.id = $1`,
+      [orgId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'Organization not found' });
+    }
+
+    res.json({ organization: result.rows[0] });
+  } catch (error) {
+    console.error('Get organization error:', error);
+    res.status(500).json({ error: 'Failed to get organization' });
+  }
+});
+
+// Update organization settings
+router.patch(
+  '/current',
+  authenticate,
+  requireRole(['admin']),
+  async (req: AuthRequest, res) => {
+    try {
+      const orgId = req.user!.orgId;
+      const { name, require_2fa_management } = req.body;
+
+      if (name !== undefined && (typeof name !== 'string' || name.trim().length < 2)) {
+        return res.status(400).json({ error: 'Organization name must be at least 2 characters long' });
+      }
+
+      if (require_2fa_management !== undefined && typeof require_2fa_management !== 'boolean') {
+        return res.status(400).json({ error: 'require_2fa_management must be a boolean' });
+      }
+
+      const result = await pool.query(
+        `UPDATE organizations
+         SET name = COALESCE($1, name),
+             require_2fa_management = COALESCE($2, require_2fa_management),
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = $3
+         RETURNING *`,
+        [name?.trim() ?? null, require_2fa_management ?? null, orgId]
+      );
+
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: 'Organization not found' });
+      }
+
+      // The requirement applies from now on, not from each user's next login
+      if (require_2fa_management === true) {
+        const revoked = await revokeSessionsLackingTwoFactor(orgId!, req.user!.sessionId);
+        if (revoked > 0) {
+          console.log(`🔐 Signed out ${revoked} session(s) without 2FA in organization ${orgId}`);
+        }
+      }
+
+      res.json({ organization: result.rows[0] });
+    } catch (error) {
+      console.error('Update organization error:', error);
+      res.status(500).json({ error: 'Failed to update organization' });
+    }
+  }
+);
+
+// The client secret is write-only
+function serializeProvider(provider: OidcProvider) {
+  const { client_secret, ...settings } = provider;
+  return { ...settings, has_client_secret: !!client_secret, redirect_uri: OIDC_REDIRECT_URI };
+}
+
+// Get single sign-on settings
+router.get(
+  '/current/sso',
+  authenticate,
+  requireRole(['admin']),
+  async (req: AuthRequest, res) => {
+    try {
+      const result = await pool.query('SELECT * FROM oidc_providers WHERE org_id = $1', [req.user!.orgId]);
+
+      res.json({ provider: result.rows.length > 0 ? serializeProvider(result.rows[0]) : null });
+    } catch (error) {
+      console.error('Get SSO settings error:', error);
+      res.status(500).json({ error: 'Failed to get single sign-on settings' });
+    }
+  }
+);
+
+// Configure single sign-on (OpenID Connect)
+router.put(
+  '/current/sso',
+  authenticate,
+  requireRole(['admin']),
+  async (req: AuthRequest, res) => {
+    try {
+      const { issuer, client_id, client_secret, scopes, groups_claim, management_groups, enabled } = req.body;
+
+      if (!issuer || !client_id) {
+        return res.status(400).json({ error: 'Issuer and client ID are required' });
+      }
+
+      if (scopes !== undefined && (typeof scopes !== 'string' || !scopes.split(' ').includes('openid'))) {
+        return res.status(400).json({ error: 'Scopes must be a space-separated string that includes openid' });
+      }
+
+      if (management_groups !== undefined && (!Array.isArray(management_groups) || management_groups.some((g: unknown) => typeof g !== 'string'))) {
+        return res.status(400).json({ error: 'management_groups must be an array of group names' });
+      }
+
+      if (enabled !== undefined && typeof enabled !== 'boolean') {
+        return res.status(400).json({ error: 'enabled must be a boolean' });
+      }
+
+      try {
+        await getDiscovery(issuer);
+      } catch (error) {
+        return res.status(400).json({ error: 'Could not load the OpenID configuration for this issuer' });
+      }
+
+      const provider = await saveProvider(req.user!.orgId!, {
+        issuer,
+        client_id,
+        client_secret,
+        scopes,
+        groups_claim,
+        management_groups,
+        enabled,
+      });
+
+      // Logged by hand so the client secret never lands in the audit log
+      await writeAuditLog(req, {
+        userId: req.user!.userId,
+        action: 'sso_configured',
+        details: { issuer: provider.issuer, client_id: provider.client_id, enabled: provider.enabled },
+      });
+
+      res.json({ provider: serializeProvider(provider) });
+    } catch (error) {
+      console.error('Save SSO settings error:', error);
+      res.status(500).json({ error: 'Failed to save single sign-on settings' });
+    }
+  }
+);
+
+// Remove single sign-on
+router.delete(
+  '/current/sso',
+  authenticate,
+  requireRole(['admin']),
+  auditLog('sso_removed'),
+  async (req: AuthRequest, res) => {
+    try {
+      const result = await pool.query('DELETE FROM oidc_providers WHERE org_id = $1 RETURNING id', [req.user!.orgId]);
+
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: 'Single sign-on is not configured' });
+      }
+
+      res.json({ message: 'Single sign-on removed' });
+    } catch (error) {
+      console.error('Remove SSO settings error:', error);
+      res.status(500).json({ error: 'Failed to remove single sign-on settings' });
+    }
+  }
+);
+
+// List pending invitations
+router.get(
+  '/invitations',
+  authenticate,
+  requireRole(['management']),
+  async (req: AuthRequest, res) => {
+    try {
+      const result = await pool.query(
+        `SELECT i.id, i.email, i.role, i.expires_at, i.created_at, u.full_name as invited_by_name
+         FROM organization_invitations i
+         LEFT JOIN users u ON i.invited_by = u.id
+         WHERE i.org_id = $1 AND i.accepted_at IS NULL AND i.revoked_at IS NULL AND i.expires_at > CURRENT_TIMESTAMP
+         ORDER BY i.created_at DESC`,
+        [req.user!.orgId]
+      );
+
+      res.json({ invitations: result.rows });
+    } catch (error) {
+      console.error('Get invitations error:', error);
+      res.status(500).json({ error: 'Failed to get invitations' });
+    }
+  }
+);
+
+// Invite someone to my organization
+router.post(
+  '/invitations',
+  authenticate,
+  requireRole(['management']),
+  auditLog('invited'),
+  async (req: AuthRequest, res) => {
+    try {
+      const orgId = req.user!.orgId!;
+      const { email, role } = req.body;
+
+      if (!email) {
+        return res.status(400).json({ error: 'Email is required' });
+      }
+
+      const normalizedEmail = email.toLowerCase().trim();
+      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+      if (!emailRegex.test(normalizedEmail)) {
+        return res.status(400).json({ error: 'Invalid email format' });
+      }
+
+      const validRoles = ['admin', 'management', 'recipient'];
+      const inviteRole = role && validRoles.includes(role) ? role : 'recipient';
+
+      if (inviteRole === 'admin' && !hasRole(req.user!.role, 'admin')) {
+        return res.status(403).json({ error: 'Only admins can invite other admins' });
+      }
+
+      // Guests (external signers without an organization) can be invited; members of any organization cannot
+      const existingUser = await pool.query('SELECT org_id FROM users WHERE email = $1', [normalizedEmail]);
+      if (existingUser.rows.length > 0 && existingUser.rows[0].org_id !== null) {
+        return res.status(400).json({ error: 'This user already belongs to an organization' });
+      }
+
+      const orgResult = await pool.query('SELECT name FROM organizations WHERE id = $1', [orgId]);
+      const inviterResult = await pool.query('SELECT full_name FROM users WHERE id = $1', [req.user!.userId]);
+
+      const { invitation, token } = await createInvitation(orgId, normalizedEmail, inviteRole, req.user!.userId);
+
+      await sendOrganizationInvitationEmail(
+        normalizedEmail,
+        inviterResult.rows[0].full_name,
+        orgResult.rows[0].name,
+        token,
+        INVITATION_EXPIRES_DAYS
+      );
+
+      res.status(201).json({ invitation });
+    } catch (error) {
+      console.error('Create invitation error:', error);
+      res.status(500).json({ error: 'Failed to create invitation' });
+    }
+  }
+);
+
+// Revoke an invitation
+router.delete(
+  '/invitations/:invitationId',
+  authenticate,
+  requireRole(['management']),
+  async (req: AuthRequest, res) => {
+    try {
+      const result = await pool.query(
+        `UPDATE organization_invitations SET revoked_at = CURRENT_TIMESTAMP
+         WHERE id = $1 AND org_id = $2 AND accepted_at IS NULL AND revoked_at IS NULL
+         RETURNING id`,
+        [parseInt(req.params.invitationId), req.user!.orgId]
+      );
+
+      if (result.rows.length === 0) {
+        return res.status(404).json({ error: 'Invitation not found' });
+      }
+
+      res.json({ message: 'Invitation revoked' });
+    } catch (error) {
+      console.error('Revoke invitation error:', error);
+      res.status(500).json({ error: 'Failed to revoke invitation' });
+    }
+  }
+);
+
+// Look up an invitation (public, so the join page can show the organization name)
+router.get('/invitations/lookup', async (req, res) => {
+  try {
+    const token = req.query.token as string;
+
+    if (!token) {
+      return res.status(400).json({ error: 'Invitation token is required' });
+    }
+
+    const invitation = await findPendingInvitation(token);
+    if (!invitation) {
+      return res.status(404).json({ error: 'Invitation not found or expired' });
+    }
+
+    res.json({
+      invitation: {
+        email: invitation.email,
+        role: invitation.role,
+        organization_name: invitation.organization_name,
+        expires_at: invitation.expires_at,
+      },
+    });
+  } catch (error) {
+    console.error('Lookup invitation error:', error);
+    res.status(500).json({ error: 'Failed to look up invitation' });
+  }
+});
+
+// Accept an invitation and create (or upgrade a guest into) a member account
+router.post('/invitations/accept', async (req, res) => {
+  const client = await pool.connect();
+  try {
+    const { token, full_name, password } = req.body;
+
+    if (!token || !full_name || !password) {
+      return res.status(400).json({ error: 'Token, full name, and password are required' });
+    }
+
+    if (full_name.trim().length < 2) {
+      return res.status(400).json({ error: 'Full name must be at least 2 characters long' });
+    }
+
+    const invitation = await findPendingInvitation(token);
+    if (!invitation) {
+      return res.status(400).json({ error: 'Invitation not found or expired' });
+    }
+
+    const passwordErrors = await validatePassword(password, { email: invitation.email });
+    if (passwordErrors.length > 0) {
+      return res.status(400).json({ error: passwordErrors[0], details: passwordErrors });
+    }
+
+    const passwordHash = await hashPassword(password);
+
+    await client.query('BEGIN');
+
+    // Claim the invitation before touching users, so two concurrent accepts
+    // (or one racing a revoke) can't both go through
+    const claimed = await client.query(
+      `UPDATE organization_invitations SET accepted_at = CURRENT_TIMESTAMP
+       WHERE id = $1
+         AND accepted_at IS NULL
+         AND revoked_at IS NULL
+         AND expires_at > CURRENT_TIMESTAMP
+       RETURNING id`,
+      [invitation.id]
+    );
+    if (claimed.rowCount === 0) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({ error: 'Invitation not found or expired' });
+    }
+
+    const existingUser = await client.query('SELECT id, org_id FROM users WHERE email = $1 FOR UPDATE', [invitation.email]);
+    let userResult;
+
+    if (existingUser.rows.length > 0) {
+      if (existingUser.rows[0].org_id !== null) {
+        await client.query('ROLLBACK');
+        return res.status(400).json({ error: 'This user already belongs to an organization' });
+      }
+
+      // Guest signer joining an organization keeps their signing history
+      userResult = await client.query(
+        `UPDATE users
+         SET org_id = $1, role = $2, full_name = $3, password_hash = $4, is_external = FALSE,
+             must_change_password = FALSE, password_changed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $5
+         RETURNING id, org_id, email, full_name, role, is_external, created_at`,
+        [invitation.org_id, invitation.role, full_name.trim(), passwordHash, existingUser.rows[0].id]
+      );
+    } else {
+      userResult = await client.query(
+        `INSERT INTO users (email, password_hash, full_name, role, is_external, org_id)
+         VALUES ($1, $2, $3, $4, FALSE, $5)
+         RETURNING id, org_id, email, full_name, role, is_external, created_at`,
+        [invitation.email, passwordHash, full_name.trim(), invitation.role, invitation.org_id]
+      );
+    }
+
+    await recordPasswordHistory(client, userResult.rows[0].id, passwordHash);
+
+    await client.query('COMMIT');
+
+    res.status(201).json({
+      message: `You have joined ${invitation.organization_name}`,
+      user: userResult.rows[0],
+    });
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    console.error('Accept invitation error:', error);
+    res.status(500).json({ error: 'Failed to accept invitation' });
+  } finally {
+    client.release();
+  }
+});
+
+export default router;
@@ -4,8 +4,18 @@ import fs from 'fs';
 import multer from 'multer';
 import pool from '../db/connection';
 import { authenticate, AuthRequest } from '../middleware/auth';
-import { auditLog } from '../middleware/audit';
-import { signPDF } from '../services/pdfSigner';
+import { auditLog, writeAuditLog } from '../middleware/audit';
+import { createSession } from '../services/session';
+import { consumeSigningLink } from '../services/signingLink';
+import { createSignatureAsset, findOwnedSignatureAsset, resolvePlacedSignatures } from '../services/signatureAsset';
+import { findAccessibleSignature, pdfFilename, resolveStoredPath } from '../services/fileAccess';
+import { isWaitingOnOthers, notifyCurrentSigners, UNSIGNED_STATUSES } from '../services/signingOrder';
+import { applyPlaceholders, listRecipientFields } from '../services/documentFields';
+import { checkSubmission } from '../services/submissionCheck';
+import { getPageSizes, signPDF } from '../services/pdfSigner';
+import { COORDINATE_MODES, parseCoordinateMode, pointsToNormalized } from '../services/pageGeometry';
+import { DEFAULT_FONT_FAMILY, listFontFamilies, TEXT_ALIGNMENTS } from '../services/pdfFonts';
+import { recordDocumentVersion } from '../services/documentVersions';
 import { sendDocumentSignedNotification } from '../services/email';
 import { TextField, Signature } from '../types';
 
@@ -41,6 +51,128 @@ const signatureUpload = multer({
   },
 });
 
+// Document statuses in which recipients can still submit
+const SIGNABLE_DOCUMENT_STATUSES = ['sent_for_signing', 'pending', 'sent_back_for_signing'];
+
+// Signature rows go to clients with an image URL instead of the server-side path
+function withImageUrl(signature: Signature) {
+  const { signature_image_path, ...rest } = signature;
+  return { ...rest, image_url: `/api/signing/${signature.document_id}/signatures/${signature.id}/image` };
+}
+
+// Exchange an emailed signing link for a session limited to that document
+router.post('/link/exchange', async (req, res) => {
+  try {
+    const { token } = req.body;
+
+    if (!token) {
+      return res.status(400).json({ error: 'Signing link token is required' });
+    }
+
+    const link = await consumeSigningLink(token);
+    if (!link) {
+      return res.status(400).json({ error: 'This signing link is invalid, has expired or has already been used' });
+    }
+
+    const result = await pool.query(
+      `SELECT u.id, u.org_id, u.email, u.full_name, u.role, u.is_external, u.is_active
+       FROM users u
+       JOIN document_recipients dr ON dr.recipient_id = u.id
+       WHERE u.id = $1 AND dr.document_id = $2`,
+      [link.recipient_id, link.document_id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'This document is no longer assigned to you' });
+    }
+
+    const user = result.rows[0];
+    if (!user.is_active) {
+      return res.status(403).json({ error: 'Account is deactivated' });
+    }
+
+    // Someone who has since joined an organization signs in normally
+    if (!user.is_external) {
+      return res.status(400).json({ error: 'Please sign in to your account to sign this document' });
+    }
+
+    const { token: accessToken, refreshToken } = await createSession(user, req, link.document_id);
+
+    await writeAuditLog(req, {
+      userId: user.id,
+      documentId: link.document_id,
+      action: 'signing_link_used',
+    });
+
+    res.json({
+      token: accessToken,
+      refreshToken,
+      documentId: link.document_id,
+      user: {
+        id: user.id,
+        email: user.email,
+        full_name: user.full_name,
+        role: user.role,
+        is_external: user.is_external,
+      },
+    });
+  } catch (error) {
+    console.error('Signing link exchange error:', error);
+    res.status(500).json({ error: 'Failed to open signing link' });
+  }
+});
+
+// Fonts and alignments text values can be drawn with
+router.get('/fonts', authenticate, (req: AuthRequest, res) => {
+  res.json({ fonts: listFontFamilies(), default_font: DEFAULT_FONT_FAMILY, alignments: TEXT_ALIGNMENTS });
+});
+
+// View the document being signed (signing-link sessions can't use /api/documents)
+router.get(
+  '/:documentId/file',
+  authenticate,
+  async (req: AuthRequest, res) => {
+    try {
+      const documentId = parseInt(req.params.documentId);
+
+      const docResult = await pool.query(
+        `SELECT d.* FROM documents d
+         JOIN document_recipients dr ON d.id = dr.document_id
+         WHERE d.id = $1 AND dr.recipient_id = $2 AND ($3::int IS NULL OR d.org_id = $3)`,
+        [documentId, req.user!.userId, req.user!.orgId]
+      );
+
+      if (docResult.rows.length === 0) {
+        return res.status(404).json({ error: 'Document not found or access denied' });
+      }
+
+      const document = docResult.rows[0];
+      const filePath = document.signed_file_path || document.original_file_path;
+      const absolutePath = path.isAbsolute(filePath)
+        ? filePath
+        : path.resolve(__dirname, '..', '..', filePath);
+
+      if (!fs.existsSync(absolutePath)) {
+        return res.status(404).json({ error: 'Document file not found' });
+      }
+
+      await writeAuditLog(req, {
+        userId: req.user!.userId,
+        documentId,
+        action: 'file_accessed',
+        details: { kind: document.signed_file_path ? 'signed' : 'original', id: documentId },
+      });
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="${pdfFilename(document)}"`);
+      res.sendFile(absolutePath);
+    } catch (error) {
+      console.error('Get signing file error:', error);
+      res.status(500).json({ error: 'Failed to get document' });
+    }
+  }
+);
+
 // Get draft data
 router.get(
   '/:documentId/draft',
@@ -54,14 +186,19 @@ router.get(
       const docCheck = await pool.query(
         `SELECT d.* FROM documents d
          JOIN document_recipients dr ON d.id = dr.document_id
-         WHERE d.id = $1 AND dr.recipient_id = $2`,
-        [documentId, userId]
+         WHERE d.id = $1 AND dr.recipient_id = $2 AND ($3::int IS NULL OR d.org_id = $3)`,
+        [documentId, userId, req.user!.orgId]
       );
       
       if (docCheck.rows.length === 0) {
         return res.status(404).json({ error: 'Document not found or access denied' });
       }
       
+      const coordinates = parseCoordinateMode(req.query.coordinates);
+      if (!coordinates) {
+        return res.status(400).json({ error: `coordinates must be one of: ${COORDINATE_MODES.join(', ')}` });
+      }
+      
       // Get text fields
       const textFieldsResult = await pool.query(
         `SELECT * FROM text_fields
@@ -78,9 +215,25 @@ router.get(
         [documentId, userId]
       );
       
+      // Placeholders the sender prepared for me (empty when placement is free)
+      const fields = await listRecipientFields(documentId, userId);
+      const signatures = signaturesResult.rows.map(withImageUrl);
+      
+      if (coordinates === 'normalized') {
+        const pageSizes = await getPageSizes(docCheck.rows[0].original_file_path);
+        return res.json({
+          coordinates,
+          fields: pointsToNormalized(fields, pageSizes),
+          textFields: pointsToNormalized(textFieldsResult.rows, pageSizes),
+          signatures: pointsToNormalized(signatures, pageSizes),
+        });
+      }
+      
       res.json({
+        coordinates,
+        fields,
         textFields: textFieldsResult.rows,
-        signatures: signaturesResult.rows,
+        signatures,
       });
     } catch (error) {
       console.error('Get draft error:', error);
@@ -104,13 +257,43 @@ router.post(
       const docCheck = await pool.query(
         `SELECT d.* FROM documents d
          JOIN document_recipients dr ON d.id = dr.document_id
-         WHERE d.id = $1 AND dr.recipient_id = $2`,
-        [documentId, userId]
+         WHERE d.id = $1 AND dr.recipient_id = $2 AND ($3::int IS NULL OR d.org_id = $3)`,
+        [documentId, userId, req.user!.orgId]
       );
       
       if (docCheck.rows.length === 0) {
         return res.status(404).json({ error: 'Document not found or access denied' });
       }
+
+      if (await isWaitingOnOthers(documentId, userId)) {
+        return res.status(403).json({ error: 'Earlier signers have to sign this document before you can' });
+      }
+
+      const coordinates = parseCoordinateMode(req.body.coordinates);
+      if (!coordinates) {
+        return res.status(400).json({ error: `coordinates must be one of: ${COORDINATE_MODES.join(', ')}` });
+      }
+
+      // Values fill the placeholders the sender prepared for this recipient
+      const placed = await applyPlaceholders(
+        documentId,
+        userId,
+        Array.isArray(textFields) ? textFields : [],
+        Array.isArray(signatures) ? signatures : [],
+        false,
+        coordinates === 'normalized' ? await getPageSizes(docCheck.rows[0].original_file_path) : null
+      );
+      if (placed.errors.length > 0) {
+        return res.status(400).json({ error: placed.errors[0], details: placed.errors });
+      }
+      const placedTextFields = placed.textFields;
+
+      // Signatures reference images the signer owns; file paths are never taken from the client
+      const resolved = await resolvePlacedSignatures(userId, placed.signatures);
+      if (resolved.errors.length > 0) {
+        return res.status(400).json({ error: resolved.errors[0], details: resolved.errors });
+      }
+      const placedSignatures = resolved.signatures;
       
       // Delete existing draft data
       await pool.query(
@@ -123,11 +306,11 @@ router.post(
       );
       
       // Save text fields
-      if (textFields && Array.isArray(textFields)) {
-        for (const field of textFields) {
+      if (placedTextFields.length > 0) {
+        for (const field of placedTextFields) {
           await pool.query(
-            `INSERT INTO text_fields (document_id, recipient_id, page_number, x_coordinate, y_coordinate, width, height, font_size, text_content, is_draft)
-             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, TRUE)`,
+            `INSERT INTO text_fields (document_id, recipient_id, page_number, x_coordinate, y_coordinate, width, height, font_size, text_content, field_id, field_type, font_family, text_align, is_draft)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, TRUE)`,
             [
               documentId,
               userId,
@@ -138,17 +321,21 @@ router.post(
               field.height,
               field.font_size,
               field.text_content,
+              field.field_id ?? null,
+              field.field_type,
+              field.font_family ?? null,
+              field.text_align ?? 'left',
             ]
           );
         }
       }
       
       // Save signatures
-      if (signatures && Array.isArray(signatures)) {
-        for (const sig of signatures) {
+      if (placedSignatures.length > 0) {
+        for (const sig of placedSignatures) {
           await pool.query(
-            `INSERT INTO signatures (document_id, recipient_id, page_number, x_coordinate, y_coordinate, width, height, signature_image_path, is_draft)
-             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, TRUE)`,
+            `INSERT INTO signatures (document_id, recipient_id, page_number, x_coordinate, y_coordinate, width, height, signature_image_path, user_signature_id, signature_asset_id, field_id, field_type, is_draft)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, TRUE)`,
             [
               documentId,
               userId,
@@ -158,6 +345,10 @@ router.post(
               sig.width,
               sig.height,
               sig.signature_image_path,
+              sig.user_signature_id,
+              sig.signature_asset_id,
+              sig.field_id ?? null,
+              sig.field_type,
             ]
           );
         }
@@ -188,9 +379,11 @@ router.post(
         return res.status(400).json({ error: 'No signature file uploaded' });
       }
       
+      const asset = await createSignatureAsset(req.user!.userId, req.file);
+
       res.json({
-        signature_path: req.file.path,
-        signature_url: `/api/signatures/${path.basename(req.file.path)}`,
+        signature_asset_id: asset.id,
+        signature_url: `/api/signing/signature/assets/${asset.id}`,
       });
     } catch (error) {
       console.error('Signature upload error:', error);
@@ -212,12 +405,12 @@ router.post(
       
       // Verify user has access
       const docResult = await pool.query(
-        `SELECT d.*, u.email as uploader_email, u.full_name as uploader_name
+        `SELECT d.*, dr.status as recipient_status, u.email as uploader_email, u.full_name as uploader_name
          FROM documents d
          JOIN document_recipients dr ON d.id = dr.document_id
          JOIN users u ON d.uploaded_by = u.id
-         WHERE d.id = $1 AND dr.recipient_id = $2`,
-        [documentId, userId]
+         WHERE d.id = $1 AND dr.recipient_id = $2 AND ($3::int IS NULL OR d.org_id = $3)`,
+        [documentId, userId, req.user!.orgId]
       );
       
       if (docResult.rows.length === 0) {
@@ -226,6 +419,53 @@ router.post(
       
       const document = docResult.rows[0];
       
+      // Completed documents, and recipients who already signed, can't be signed again
+      if (!SIGNABLE_DOCUMENT_STATUSES.includes(document.status) || !UNSIGNED_STATUSES.includes(document.recipient_status)) {
+        return res.status(409).json({ error: 'This document is no longer waiting for your signature' });
+      }
+
+      if (await isWaitingOnOthers(documentId, userId)) {
+        return res.status(403).json({ error: 'Earlier signers have to sign this document before you can' });
+      }
+
+      const coordinates = parseCoordinateMode(req.body.coordinates);
+      if (!coordinates) {
+        return res.status(400).json({ error: `coordinates must be one of: ${COORDINATE_MODES.join(', ')}` });
+      }
+
+      // Values fill the placeholders the sender prepared for this recipient
+      const placed = await applyPlaceholders(
+        documentId,
+        userId,
+        Array.isArray(textFields) ? textFields : [],
+        Array.isArray(signatures) ? signatures : [],
+        true,
+        coordinates === 'normalized' ? await getPageSizes(document.original_file_path) : null
+      );
+      if (placed.errors.length > 0) {
+        return res.status(400).json({ error: placed.errors[0], details: placed.errors });
+      }
+      const placedTextFields = placed.textFields;
+
+      // Signatures reference images the signer owns; file paths are never taken from the client
+      const resolved = await resolvePlacedSignatures(userId, placed.signatures);
+      if (resolved.errors.length > 0) {
+        return res.status(400).json({ error: resolved.errors[0], details: resolved.errors });
+      }
+      const placedSignatures = resolved.signatures;
+
+      // Reject incomplete or misplaced submissions before anything is stored
+      const problems = await checkSubmission(
+        document.original_file_path,
+        placed.usesPlaceholders,
+        placed.assignedFields,
+        placedTextFields,
+        placedSignatures
+      );
+      if (problems.length > 0) {
+        return res.status(400).json({ error: problems[0].message, problems });
+      }
+      
       // Get user info
       const userResult = await pool.query('SELECT * FROM users WHERE id = $1', [userId]);
       const user = userResult.rows[0];
@@ -241,11 +481,11 @@ router.post(
       );
       
       // Save text fields (not draft)
-      if (textFields && Array.isArray(textFields)) {
-        for (const field of textFields) {
+      if (placedTextFields.length > 0) {
+        for (const field of placedTextFields) {
           await pool.query(
-            `INSERT INTO text_fields (document_id, recipient_id, page_number, x_coordinate, y_coordinate, width, height, font_size, text_content, is_draft)
-             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, FALSE)`,
+            `INSERT INTO text_fields (document_id, recipient_id, page_number, x_coordinate, y_coordinate, width, height, font_size, text_content, field_id, field_type, font_family, text_align, is_draft)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, FALSE)`,
             [
               documentId,
               userId,
@@ -256,17 +496,21 @@ router.post(
               field.height,
               field.font_size,
               field.text_content,
+              field.field_id ?? null,
+              field.field_type,
+              field.font_family ?? null,
+              field.text_align ?? 'left',
             ]
           );
         }
       }
       
       // Save signatures (not draft)
-      if (signatures && Array.isArray(signatures)) {
-        for (const sig of signatures) {
+      if (placedSignatures.length > 0) {
+        for (const sig of placedSignatures) {
           await pool.query(
-            `INSERT INTO signatures (document_id, recipient_id, page_number, x_coordinate, y_coordinate, width, height, signature_image_path, is_draft)
-             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, FALSE)`,
+            `INSERT INTO signatures (document_id, recipient_id, page_number, x_coordinate, y_coordinate, width, height, signature_image_path, user_signature_id, signature_asset_id, field_id, field_type, is_draft)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, FALSE)`,
             [
               documentId,
               userId,
@@ -276,6 +520,10 @@ router.post(
               sig.width,
               sig.height,
               sig.signature_image_path,
+              sig.user_signature_id,
+              sig.signature_asset_id,
+              sig.field_id ?? null,
+              sig.field_type,
             ]
           );
         }
@@ -283,7 +531,9 @@ router.post(
       
       // Get all signatures and text fields for this document (all recipients)
       const allTextFieldsResult = await pool.query(
-        'SELECT * FROM text_fields WHERE document_id = $1 AND is_draft = FALSE',
+        `SELECT tf.*, df.pdf_field_name FROM text_fields tf
+         LEFT JOIN document_fields df ON tf.field_id = df.id
+         WHERE tf.document_id = $1 AND tf.is_draft = FALSE`,
         [documentId]
       );
       
@@ -331,8 +581,8 @@ router.post(
       const remainingRecipients = await pool.query(
         `SELECT COUNT(*) as count 
          FROM document_recipients 
-         WHERE document_id = $1 AND status IN ('pending', 'draft')`,
-        [documentId]
+         WHERE document_id = $1 AND status = ANY($2)`,
+        [documentId, UNSIGNED_STATUSES]
       );
       
       // Update document status
@@ -346,6 +596,14 @@ router.post(
         'UPDATE documents SET signed_file_path = $1, status = $2, updated_at = CURRENT_TIMESTAMP WHERE id = $3',
         [signedFilePath, newStatus, documentId]
       );
+      await recordDocumentVersion(documentId, 'signed', signedFilePath, userId);
+      
+      // Notify the next group once everyone in this one has signed
+      try {
+        await notifyCurrentSigners(documentId, document.uploaded_by);
+      } catch (notifyError) {
+        console.error('⚠️ Failed to notify the next signers (document signing still completed):', notifyError);
+      }
       
       // Send notification to uploader
       try {
@@ -379,22 +637,73 @@ router.post(
   }
 );
 
-// Serve signature images
-router.get('/signatures/:filename', (req, res) => {
-  try {
-    const filename = req.params.filename;
-    const filePath = path.join(UPLOAD_DIR, 'signatures', filename);
-    
-    if (!fs.existsSync(filePath)) {
-      return res.status(404).json({ error: 'Signature not found' });
+// Get an uploaded signature image (only its uploader can see it)
+router.get(
+  '/signature/assets/:assetId',
+  authenticate,
+  async (req: AuthRequest, res) => {
+    try {
+      const asset = await findOwnedSignatureAsset(req.user!.userId, parseInt(req.params.assetId));
+      if (!asset) {
+        return res.status(404).json({ error: 'Signature not found' });
+      }
+
+      const filePath = resolveStoredPath(asset.file_path);
+      if (!fs.existsSync(filePath)) {
+        return res.status(404).json({ error: 'Signature image not found' });
+      }
+
+      await writeAuditLog(req, {
+        userId: req.user!.userId,
+        action: 'file_accessed',
+        details: { kind: 'signature_asset', id: asset.id },
+      });
+
+      res.sendFile(filePath);
+    } catch (error) {
+      console.error('Get signature asset error:', error);
+      res.status(500).json({ error: 'Failed to get signature image' });
     }
-    
-    res.sendFile(path.resolve(filePath));
-  } catch (error) {
-    console.error('Serve signature error:', error);
-    res.status(500).json({ error: 'Failed to serve signature' });
   }
-});
+);
+
+// Get the image of a signature placed on a document. The document owner and
+// its recipients can see submitted signatures; drafts only their signer.
+router.get(
+  '/:documentId/signatures/:signatureId/image',
+  authenticate,
+  async (req: AuthRequest, res) => {
+    try {
+      const signature = await findAccessibleSignature(
+        parseInt(req.params.signatureId),
+        req.user!.userId,
+        req.user!.orgId,
+        parseInt(req.params.documentId)
+      );
+
+      if (!signature) {
+        return res.status(404).json({ error: 'Signature not found' });
+      }
+
+      const filePath = resolveStoredPath(signature.signature_image_path);
+      if (!fs.existsSync(filePath)) {
+        return res.status(404).json({ error: 'Signature image not found' });
+      }
+
+      await writeAuditLog(req, {
+        userId: req.user!.userId,
+        documentId: signature.document_id,
+        action: 'file_accessed',
+        details: { kind: 'signature', id: signature.id },
+      });
+
+      res.sendFile(filePath);
+    } catch (error) {
+      console.error('Get signature image error:', error);
+      res.status(500).json({ error: 'Failed to get signature image' });
+    }
+  }
+);
 
 export default router;
 
@@ -0,0 +1,209 @@
+import express, { Response, NextFunction } from 'express';
+import pool from '../db/connection';
+import { comparePassword } from '../utils/password';
+import { verifyChallengeToken } from '../utils/jwt';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { createSession } from '../services/session';
+import {
+  beginEnrollment,
+  verifyTwoFactorCode,
+  enableTwoFactor,
+  disableTwoFactor,
+  generateRecoveryCodes,
+  isTwoFactorRequired,
+  consumeChallenge,
+} from '../services/twoFactor';
+import { recordLoginSuccess } from '../services/loginThrottle';
+import { ChallengePayload } from '../types';
+
+const router = express.Router();
+
+interface EnrollmentRequest extends AuthRequest {
+  enrollmentUserId?: number;
+  enrollmentChallenge?: ChallengePayload;
+}
+
+// Enrollment can happen from a normal session, or straight after login with
+// the setup challenge token when 2FA is mandatory and not yet configured
+function authenticateForEnrollment(req: EnrollmentRequest, res: Response, next: NextFunction) {
+  const challengeToken = req.body?.challengeToken;
+
+  if (challengeToken) {
+    try {
+      const challenge = verifyChallengeToken(challengeToken, 'mfa_setup');
+      req.enrollmentUserId = challenge.userId;
+      req.enrollmentChallenge = challenge;
+      return next();
+    } catch (error) {
+      return res.status(401).json({ error: 'Invalid or expired challenge token' });
+    }
+  }
+
+  return authenticate(req, res, () => {
+    req.enrollmentUserId = req.user!.userId;
+    next();
+  });
+}
+
+// Start enrollment: returns the secret and an otpauth:// URI for QR codes
+router.post('/setup', authenticateForEnrollment, async (req: EnrollmentRequest, res) => {
+  try {
+    const userId = req.enrollmentUserId!;
+
+    const result = await pool.query('SELECT email, totp_enabled FROM users WHERE id = $1', [userId]);
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (result.rows[0].totp_enabled) {
+      return res.status(400).json({ error: 'Two-factor authentication is already enabled' });
+    }
+
+    const { secret, otpauthUri } = await beginEnrollment(userId, result.rows[0].email);
+
+    res.json({ secret, otpauthUri });
+  } catch (error) {
+    console.error('2FA setup error:', error);
+    res.status(500).json({ error: 'Failed to start two-factor setup' });
+  }
+});
+
+// Confirm enrollment with a code from the authenticator app
+router.post('/confirm', authenticateForEnrollment, async (req: EnrollmentRequest, res) => {
+  try {
+    const userId = req.enrollmentUserId!;
+    const { code } = req.body;
+
+    if (!code) {
+      return res.status(400).json({ error: 'Verification code is required' });
+    }
+
+    const result = await pool.query(
+      'SELECT id, org_id, email, full_name, role, is_external, must_change_password, totp_secret, totp_enabled FROM users WHERE id = $1',
+      [userId]
+    );
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const user = result.rows[0];
+    if (user.totp_enabled) {
+      return res.status(400).json({ error: 'Two-factor authentication is already enabled' });
+    }
+    if (!user.totp_secret) {
+      return res.status(400).json({ error: 'Two-factor setup has not been started' });
+    }
+
+    // Setup may be fetched more than once, but each challenge allows a single
+    // confirmation attempt; another one needs the password again
+    if (req.enrollmentChallenge && !await consumeChallenge(req.enrollmentChallenge)) {
+      return res.status(401).json({ error: 'Invalid or expired challenge token' });
+    }
+
+    const isValid = await verifyTwoFactorCode(userId, code);
+    if (!isValid) {
+      return res.status(400).json({ error: 'Invalid verification code' });
+    }
+
+    const recoveryCodes = await enableTwoFactor(userId);
+
+    // Finishing mandatory enrollment completes the login that started it
+    if (!req.user) {
+      await recordLoginSuccess(user.email);
+      const { token, refreshToken } = await createSession(user, req);
+      return res.json({
+        message: 'Two-factor authentication enabled',
+        recoveryCodes,
+        token,
+        refreshToken,
+        user: {
+          id: user.id,
+          email: user.email,
+          full_name: user.full_name,
+          role: user.role,
+          org_id: user.org_id,
+          is_external: user.is_external,
+          must_change_password: user.must_change_password,
+        },
+      });
+    }
+
+    res.json({ message: 'Two-factor authentication enabled', recoveryCodes });
+  } catch (error) {
+    console.error('2FA confirm error:', error);
+    res.status(500).json({ error: 'Failed to confirm two-factor setup' });
+  }
+});
+
+// Disable 2FA (requires password and a current code)
+router.post('/disable', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const userId = req.user!.userId;
+    const { password, code } = req.body;
+
+    if (!password || !code) {
+      return res.status(400).json({ error: 'Password and verification code are required' });
+    }
+
+    if (await isTwoFactorRequired(req.user!.role, req.user!.orgId)) {
+      return res.status(403).json({ error: 'Two-factor authentication is mandatory for your role' });
+    }
+
+    const result = await pool.query('SELECT password_hash, totp_enabled FROM users WHERE id = $1', [userId]);
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (!result.rows[0].totp_enabled) {
+      return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+    }
+
+    const passwordValid = await comparePassword(password, result.rows[0].password_hash);
+    if (!passwordValid) {
+      return res.status(401).json({ error: 'Password is incorrect' });
+    }
+
+    const codeValid = await verifyTwoFactorCode(userId, code);
+    if (!codeValid) {
+      return res.status(400).json({ error: 'Invalid verification code' });
+    }
+
+    await disableTwoFactor(userId);
+
+    res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    console.error('2FA disable error:', error);
+    res.status(500).json({ error: 'Failed to disable two-factor authentication' });
+  }
+});
+
+// Replace recovery codes (invalidates the old ones)
+router.post('/recovery-codes', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const userId = req.user!.userId;
+    const { code } = req.body;
+
+    if (!code) {
+      return res.status(400).json({ error: 'Verification code is required' });
+    }
+
+    const result = await pool.query('SELECT totp_enabled FROM users WHERE id = $1', [userId]);
+    if (result.rows.length === 0 || !result.rows[0].totp_enabled) {
+      return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+    }
+
+    const codeValid = await verifyTwoFactorCode(userId, code);
+    if (!codeValid) {
+      return res.status(400).json({ error: 'Invalid verification code' });
+    }
+
+    const recoveryCodes = await generateRecoveryCodes(userId);
+
+    res.json({ recoveryCodes });
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error);
+    res.status(500).json({ error: 'Failed to regenerate recovery codes' });
+  }
+});
+
+export default router;
@@ -0,0 +1,145 @@
+import express from 'express';
+import path from 'path';
+import fs from 'fs';
+import multer from 'multer';
+import { authenticate, AuthRequest } from '../middleware/auth';
+import { writeAuditLog } from '../middleware/audit';
+import { resolveStoredPath } from '../services/fileAccess';
+import {
+  listUserSignatures,
+  findUserSignature,
+  createUserSignature,
+  setDefaultUserSignature,
+  deleteUserSignature,
+  USER_SIGNATURE_KINDS,
+} from '../services/userSignature';
+
+const router = express.Router();
+
+const UPLOAD_DIR = process.env.UPLOAD_DIR || './uploads';
+
+const storage = multer.diskStorage({
+  destination: (req, file, cb) => {
+    const dir = path.join(UPLOAD_DIR, 'user-signatures');
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    cb(null, dir);
+  },
+  filename: (req, file, cb) => {
+    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+    cb(null, uniqueSuffix + path.extname(file.originalname).toLowerCase());
+  },
+});
+
+const upload = multer({
+  storage,
+  limits: { fileSize: 5242880 }, // 5MB
+  fileFilter: (req, file, cb) => {
+    const ext = path.extname(file.originalname).toLowerCase();
+    if (ext === '.png' || ext === '.jpg' || ext === '.jpeg') {
+      cb(null, true);
+    } else {
+      cb(new Error('Only PNG and JPEG images are allowed'));
+    }
+  },
+});
+
+// List my saved signatures and initials
+router.get('/', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const kind = req.query.kind as string | undefined;
+    if (kind && !USER_SIGNATURE_KINDS.includes(kind)) {
+      return res.status(400).json({ error: `Kind must be one of: ${USER_SIGNATURE_KINDS.join(', ')}` });
+    }
+
+    const signatures = await listUserSignatures(req.user!.userId, kind);
+    res.json({ signatures });
+  } catch (error) {
+    console.error('List saved signatures error:', error);
+    res.status(500).json({ error: 'Failed to list saved signatures' });
+  }
+});
+
+// Save a new signature or initials image
+router.post('/', authenticate, upload.single('image'), async (req: AuthRequest, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'No image uploaded' });
+    }
+
+    const kind = req.body.kind || 'signature';
+    if (!USER_SIGNATURE_KINDS.includes(kind)) {
+      fs.unlinkSync(req.file.path);
+      return res.status(400).json({ error: `Kind must be one of: ${USER_SIGNATURE_KINDS.join(', ')}` });
+    }
+
+    const label = typeof req.body.label === 'string' && req.body.label.trim() ? req.body.label.trim().substring(0, 100) : null;
+    const makeDefault = req.body.is_default === true || req.body.is_default === 'true';
+
+    const signature = await createUserSignature(req.user!.userId, kind, label, req.file.path, makeDefault);
+
+    res.status(201).json({ signature });
+  } catch (error) {
+    console.error('Save signature error:', error);
+    res.status(500).json({ error: 'Failed to save signature' });
+  }
+});
+
+// Get a saved signature image
+router.get('/:signatureId/image', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const signature = await findUserSignature(req.user!.userId, parseInt(req.params.signatureId));
+    if (!signature) {
+      return res.status(404).json({ error: 'Signature not found' });
+    }
+
+    const filePath = resolveStoredPath(signature.image_path);
+    if (!fs.existsSync(filePath)) {
+      return res.status(404).json({ error: 'Signature image not found' });
+    }
+
+    await writeAuditLog(req, {
+      userId: req.user!.userId,
+      action: 'file_accessed',
+      details: { kind: 'user_signature', id: signature.id },
+    });
+
+    res.sendFile(filePath);
+  } catch (error) {
+    console.error('Get saved signature image error:', error);
+    res.status(500).json({ error: 'Failed to get signature image' });
+  }
+});
+
+// Make a saved signature the default for its kind
+router.post('/:signatureId/default', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const signature = await setDefaultUserSignature(req.user!.userId, parseInt(req.params.signatureId));
+    if (!signature) {
+      return res.status(404).json({ error: 'Signature not found' });
+    }
+
+    res.json({ signature });
+  } catch (error) {
+    console.error('Set default signature error:', error);
+    res.status(500).json({ error: 'Failed to set default signature' });
+  }
+});
+
+// Delete a saved signature (documents already signed with it are unaffected)
+router.delete('/:signatureId', authenticate, async (req: AuthRequest, res) => {
+  try {
+    const signature = await deleteUserSignature(req.user!.userId, parseInt(req.params.signatureId));
+    if (!signature) {
+      return res.status(404).json({ error: 'Signature not found' });
+    }
+
+    res.json({ message: 'Signature deleted' });
+  } catch (error) {
+    console.error('Delete saved signature error:', error);
+    res.status(500).json({ error: 'Failed to delete signature' });
+  }
+});
+
+export default router;
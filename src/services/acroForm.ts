@@ -0,0 +1,291 @@
+import fs from 'fs';
+import {
+  PDFCheckBox,
+  PDFDict,
+  PDFDocument,
+  PDFDropdown,
+  PDFField,
+  PDFName,
+  PDFOptionList,
+  PDFRadioGroup,
+  PDFRef,
+  PDFSignature,
+  PDFTextField,
+  PDFWidgetAnnotation,
+} from 'pdf-lib';
+import { FieldType, TextField } from '../types';
+import { resolveStoredPath } from './fileAccess';
+import { DEFAULT_FONT_FAMILY, FontSet, isFontFamily, listFontFamilies } from './pdfFonts';
+import { getPageGeometry, pdfRectToViewer } from './pageGeometry';
+
+// Form fields (AcroForm) that uploaded PDFs already contain. Placeholders
+// can reference one by name: the recipient's value is then filled into the
+// field itself rather than drawn on top of it, and the form is flattened into
+// the page content when the document is completed.
+
+export type FormFieldKind = 'text' | 'checkbox' | 'radio' | 'dropdown' | 'signature' | 'button';
+
+export interface FormFieldWidget {
+  // Where the field appears, in viewer coordinates like placeholders
+  page_number: number;
+  x_coordinate: number;
+  y_coordinate: number;
+  width: number;
+  height: number;
+  // The option a radio button selects
+  option?: string;
+}
+
+export interface FormFieldInfo {
+  name: string;
+  kind: FormFieldKind;
+  // Placeholder types that can fill this field, the most fitting first
+  // (empty for push buttons, which hold no value)
+  field_types: FieldType[];
+  required: boolean;
+  read_only: boolean;
+  value: string | null;
+  // Choices of dropdowns and list boxes, options of radio groups
+  options: string[];
+  max_length: number | null;
+  widgets: FormFieldWidget[];
+}
+
+const FIELD_TYPES_BY_KIND: Record<FormFieldKind, FieldType[]> = {
+  text: ['text', 'number', 'email', 'date_signed'],
+  checkbox: ['checkbox'],
+  radio: ['radio'],
+  dropdown: ['dropdown'],
+  signature: ['signature', 'initials'],
+  button: [],
+};
+
+function kindOf(field: PDFField): FormFieldKind {
+  if (field instanceof PDFTextField) return 'text';
+  if (field instanceof PDFCheckBox) return 'checkbox';
+  if (field instanceof PDFRadioGroup) return 'radio';
+  if (field instanceof PDFDropdown || field instanceof PDFOptionList) return 'dropdown';
+  if (field instanceof PDFSignature) return 'signature';
+  return 'button';
+}
+
+function currentValue(field: PDFField): string | null {
+  if (field instanceof PDFTextField) return field.getText() ?? null;
+  if (field instanceof PDFCheckBox) return field.isChecked() ? 'true' : 'false';
+  if (field instanceof PDFRadioGroup) return field.getSelected() ?? null;
+  if (field instanceof PDFDropdown || field instanceof PDFOptionList) return field.getSelected()[0] ?? null;
+  return null;
+}
+
+function widgetPageIndex(pdfDoc: PDFDocument, widget: PDFWidgetAnnotation): number {
+  const pages = pdfDoc.getPages();
+  const pageRef = widget.P();
+  const index = pages.findIndex(page => page.ref === pageRef);
+  if (index >= 0) {
+    return index;
+  }
+  // /P is optional; fall back to the page whose annotations list the widget
+  const widgetRef = pdfDoc.context.getObjectRef(widget.dict);
+  const page = widgetRef ? pdfDoc.findPageForAnnotationRef(widgetRef) : undefined;
+  return page ? pages.indexOf(page) : -1;
+}
+
+// List the form fields of a stored PDF with their widgets' positions
+export async function inspectFormFields(pdfPath: string): Promise<FormFieldInfo[]> {
+  const pdfDoc = await PDFDocument.load(fs.readFileSync(resolveStoredPath(pdfPath)));
+  if (!pdfDoc.catalog.getAcroForm()) {
+    return [];
+  }
+
+  const pages = pdfDoc.getPages();
+  return pdfDoc.getForm().getFields().map(field => {
+    const kind = kindOf(field);
+    const options = field instanceof PDFRadioGroup || field instanceof PDFDropdown || field instanceof PDFOptionList
+      ? field.getOptions()
+      : [];
+
+    const widgets: FormFieldWidget[] = [];
+    field.acroField.getWidgets().forEach((widget, index) => {
+      const pageIndex = widgetPageIndex(pdfDoc, widget);
+      if (pageIndex < 0) {
+        return;
+      }
+      const rect = pdfRectToViewer(getPageGeometry(pages[pageIndex]), widget.getRectangle());
+      widgets.push({
+        page_number: pageIndex + 1,
+        x_coordinate: rect.x,
+        y_coordinate: rect.y,
+        width: rect.width,
+        height: rect.height,
+        // Radio options are listed in widget order
+        ...(kind === 'radio' && options[index] !== undefined ? { option: options[index] } : {}),
+      });
+    });
+
+    return {
+      name: field.getName(),
+      kind,
+      field_types: FIELD_TYPES_BY_KIND[kind],
+      required: field.isRequired(),
+      read_only: field.isReadOnly(),
+      value: currentValue(field),
+      options,
+      max_length: field instanceof PDFTextField ? field.getMaxLength() ?? null : null,
+      widgets,
+    };
+  });
+}
+
+// Turn placeholder definitions that name a form field (pdf_field) into
+// ordinary ones: page and rectangle come from the field's widget, dropdown
+// choices from the field, and the type has to be one the field can hold.
+// Definitions without pdf_field pass through. Problems are numbered like
+// validateFieldDefinitions numbers them.
+export function resolveFormFieldRefs(fields: unknown, formFields: FormFieldInfo[]): { fields: unknown; errors: string[] } {
+  if (!Array.isArray(fields)) {
+    return { fields, errors: [] };
+  }
+
+  const byName = new Map(formFields.map(formField => [formField.name, formField]));
+  const errors: string[] = [];
+  const resolved = fields.map((field: any, index: number) => {
+    if (!field || typeof field !== 'object') {
+      return field;
+    }
+    if (field.pdf_field === undefined || field.pdf_field === null || field.pdf_field === '') {
+      return { ...field, pdf_field_name: null };
+    }
+
+    const n = index + 1;
+    const formField = byName.get(String(field.pdf_field));
+    if (!formField) {
+      errors.push(`Field ${n}: the PDF has no form field named "${field.pdf_field}"`);
+      return field;
+    }
+
+    const fieldType = field.field_type ?? formField.field_types[0];
+    if (!formField.field_types.includes(fieldType)) {
+      errors.push(formField.field_types.length > 0
+        ? `Field ${n}: form field "${formField.name}" can only be filled as ${formField.field_types.join(', ')}`
+        : `Field ${n}: form field "${formField.name}" can't be filled`);
+      return field;
+    }
+    if (formField.read_only) {
+      errors.push(`Field ${n}: form field "${formField.name}" is read-only`);
+      return field;
+    }
+    if (field.all_pages === true || field.all_pages === 'true') {
+      errors.push(`Field ${n}: fields filling a form field can't span every page`);
+      return field;
+    }
+
+    const rawOptions = field.options && typeof field.options === 'object' ? field.options : {};
+    let options = rawOptions;
+    let widget: FormFieldWidget | undefined = formField.widgets[0];
+    if (formField.kind === 'radio') {
+      // One placeholder per option; the group is the form field
+      widget = formField.widgets.find(candidate => candidate.option === rawOptions.value);
+      if (!widget) {
+        errors.push(`Field ${n}: options.value must be one of: ${formField.options.join(', ')}`);
+        return field;
+      }
+      options = { ...rawOptions, group: formField.name };
+    } else if (formField.kind === 'dropdown') {
+      options = { ...rawOptions, choices: formField.options };
+    }
+    if (!widget) {
+      errors.push(`Field ${n}: form field "${formField.name}" isn't shown on any page`);
+      return field;
+    }
+
+    return {
+      ...field,
+      field_type: fieldType,
+      page_number: widget.page_number,
+      x_coordinate: widget.x_coordinate,
+      y_coordinate: widget.y_coordinate,
+      width: widget.width,
+      height: widget.height,
+      options,
+      pdf_field_name: formField.name,
+    };
+  });
+
+  return { fields: resolved, errors };
+}
+
+// Form fields are drawn with one font: the first, starting with the requested
+// family, that has every character of the value
+function singleFontFamily(fonts: FontSet, text: string, family?: string | null): string {
+  const candidates = [family, DEFAULT_FONT_FAMILY, ...listFontFamilies()].filter(isFontFamily);
+  return candidates.find(candidate => fonts.runs(text, candidate).every(run => run.family === candidate))
+    ?? DEFAULT_FONT_FAMILY;
+}
+
+// Fill a value into the form field its placeholder references. Returns false
+// when the PDF has no such field (or the value doesn't fit it), so the caller
+// can draw the value instead.
+export async function fillFormField(pdfDoc: PDFDocument, fonts: FontSet, value: TextField): Promise<boolean> {
+  if (!value.pdf_field_name || !pdfDoc.catalog.getAcroForm()) {
+    return false;
+  }
+  const field = pdfDoc.getForm().getFieldMaybe(value.pdf_field_name);
+  const text = value.text_content ?? '';
+
+  if (field instanceof PDFTextField) {
+    const maxLength = field.getMaxLength();
+    const fitted = maxLength !== undefined ? [...text].slice(0, maxLength).join('') : text;
+    field.setText(fitted);
+    field.updateAppearances(await fonts.embed(singleFontFamily(fonts, fitted, value.font_family)));
+  } else if (field instanceof PDFCheckBox) {
+    if (text === 'true') {
+      field.check();
+    } else {
+      field.uncheck();
+    }
+  } else if (field instanceof PDFRadioGroup && field.getOptions().includes(text)) {
+    field.select(text);
+  } else if ((field instanceof PDFDropdown || field instanceof PDFOptionList) && field.getOptions().includes(text)) {
+    field.select(text);
+    field.updateAppearances(await fonts.embed(singleFontFamily(fonts, text, value.font_family)));
+  } else {
+    return false;
+  }
+  return true;
+}
+
+function hasAppearance(field: PDFField, widget: PDFWidgetAnnotation): boolean {
+  const appearances = widget.dict.lookupMaybe(PDFName.of('AP'), PDFDict);
+  const normal = appearances?.get(PDFName.of('N'));
+  if (normal instanceof PDFDict && (field instanceof PDFCheckBox || field instanceof PDFRadioGroup)) {
+    const state = field.acroField.getValue();
+    return normal.get(state) instanceof PDFRef || normal.get(PDFName.of('Off')) instanceof PDFRef;
+  }
+  return normal instanceof PDFRef;
+}
+
+// Draw every form field into its page and remove the form, so the values
+// can no longer be edited. Returns the number of fields flattened.
+export async function flattenForm(pdfDoc: PDFDocument, fonts: FontSet): Promise<number> {
+  if (!pdfDoc.catalog.getAcroForm()) {
+    return 0;
+  }
+  const form = pdfDoc.getForm();
+  const fields = form.getFields();
+  if (fields.length === 0) {
+    return 0;
+  }
+
+  // pdf-lib's own default font only covers Latin-1
+  if (fields.some(field => field.needsAppearancesUpdate())) {
+    form.updateFieldAppearances(await fonts.embed(DEFAULT_FONT_FAMILY));
+  }
+  for (const field of fields) {
+    // Nothing shows for widgets without an appearance (e.g. unsigned signature fields)
+    if (!field.acroField.getWidgets().every(widget => hasAppearance(field, widget))) {
+      form.removeField(field);
+    }
+  }
+  form.flatten({ updateFieldAppearances: false });
+  return fields.length;
+}
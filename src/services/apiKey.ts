@@ -0,0 +1,101 @@
+import crypto from 'crypto';
+import pool from '../db/connection';
+import { hashToken } from '../utils/jwt';
+import { ApiKey } from '../types';
+
+export const API_KEY_PREFIX = 'esk_';
+export const API_KEY_SCOPES = ['documents:read', 'documents:write', 'signing:read'];
+export const API_KEY_DEFAULT_EXPIRES_DAYS = parseInt(process.env.API_KEY_DEFAULT_EXPIRES_DAYS || '365');
+
+const API_KEY_COLUMNS = 'id, org_id, created_by, name, key_prefix, scopes, expires_at, last_used_at, last_used_ip, revoked_at, created_at';
+
+export interface ApiKeyOwner {
+  apiKey: ApiKey;
+  user: {
+    id: number;
+    email: string;
+    role: string;
+  };
+}
+
+export function isApiKey(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+// Create a key; the plaintext key is only returned here
+export async function createApiKey(
+  orgId: number,
+  createdBy: number,
+  name: string,
+  scopes: string[],
+  expiresAt: Date | null
+): Promise<{ apiKey: ApiKey; key: string }> {
+  const key = API_KEY_PREFIX + crypto.randomBytes(24).toString('hex');
+
+  const result = await pool.query(
+    `INSERT INTO api_keys (org_id, created_by, name, key_prefix, key_hash, scopes, expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     RETURNING ${API_KEY_COLUMNS}`,
+    [orgId, createdBy, name, key.substring(0, API_KEY_PREFIX.length + 8), hashToken(key), scopes, expiresAt]
+  );
+
+  return { apiKey: result.rows[0], key };
+}
+
+// Resolve a presented key to its record and owner. Returns null for unknown,
+// revoked or expired keys, and for keys whose creator has lost access.
+export async function findApiKey(key: string, ipAddress?: string): Promise<ApiKeyOwner | null> {
+  const result = await pool.query(
+    `SELECT k.id, k.org_id, k.created_by, k.name, k.key_prefix, k.scopes, k.expires_at, k.last_used_at,
+            k.last_used_ip, k.revoked_at, k.created_at,
+            u.email, u.role, u.is_active, u.org_id as user_org_id
+     FROM api_keys k
+     JOIN users u ON k.created_by = u.id
+     WHERE k.key_hash = $1`,
+    [hashToken(key)]
+  );
+
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const row = result.rows[0];
+  if (row.revoked_at || (row.expires_at && new Date(row.expires_at) < new Date())) {
+    return null;
+  }
+
+  if (row.is_active === false || row.user_org_id !== row.org_id) {
+    return null;
+  }
+
+  await pool.query(
+    'UPDATE api_keys SET last_used_at = CURRENT_TIMESTAMP, last_used_ip = $1 WHERE id = $2',
+    [ipAddress || null, row.id]
+  );
+
+  const { email, role, is_active, user_org_id, ...apiKey } = row;
+  return {
+    apiKey,
+    user: { id: row.created_by, email, role },
+  };
+}
+
+export async function listApiKeys(orgId: number, createdBy?: number): Promise<ApiKey[]> {
+  const result = await pool.query(
+    `SELECT ${API_KEY_COLUMNS}
+     FROM api_keys
+     WHERE org_id = $1 AND ($2::int IS NULL OR created_by = $2)
+     ORDER BY created_at DESC`,
+    [orgId, createdBy ?? null]
+  );
+  return result.rows;
+}
+
+export async function revokeApiKey(keyId: number, orgId: number, createdBy?: number): Promise<boolean> {
+  const result = await pool.query(
+    `UPDATE api_keys SET revoked_at = CURRENT_TIMESTAMP
+     WHERE id = $1 AND org_id = $2 AND ($3::int IS NULL OR created_by = $3) AND revoked_at IS NULL`,
+    [keyId, orgId, createdBy ?? null]
+  );
+  return (result.rowCount || 0) > 0;
+}
@@ -0,0 +1,182 @@
+import { PDFDocument, PDFPage } from 'pdf-lib';
+import pool from '../db/connection';
+import { sha256File } from './fileHashes';
+import { createFontSet, drawTextLine, wrapText } from './pdfFonts';
+
+// Audit actions that mean a recipient opened the document
+const VIEW_ACTIONS = ['file_accessed', 'downloaded', 'viewed', 'signing_link_used'];
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const LINE_HEIGHT = 14;
+
+export interface RecipientEvidence {
+  full_name: string;
+  email: string;
+  status: string;
+  signing_order: number;
+  sent_at: Date | null;
+  viewed_at: Date | null;
+  viewed_ip: string | null;
+  signed_at: Date | null;
+  signed_ip: string | null;
+  signed_user_agent: string | null;
+}
+
+export interface CompletionEvidence {
+  documentId: number;
+  title: string;
+  originalFilename: string;
+  // Of the file as uploaded; for Word uploads also of the PDF converted from it
+  originalSha256: string;
+  convertedSha256: string | null;
+  sender: { full_name: string; email: string };
+  createdAt: Date;
+  completedAt: Date;
+  completedBy: { full_name: string; email: string };
+  recipients: RecipientEvidence[];
+}
+
+// Gather the evidence for a document: who it was sent to and, per recipient,
+// when it was sent, first viewed and signed, with the IP address and user
+// agent recorded in audit_logs
+export async function collectCompletionEvidence(documentId: number, completedBy: number): Promise<CompletionEvidence> {
+  const docResult = await pool.query(
+    `SELECT d.*, u.full_name AS sender_name, u.email AS sender_email
+     FROM documents d
+     JOIN users u ON d.uploaded_by = u.id
+     WHERE d.id = $1`,
+    [documentId]
+  );
+  const document = docResult.rows[0];
+  if (!document) {
+    throw new Error(`Document ${documentId} not found`);
+  }
+
+  const completerResult = await pool.query('SELECT full_name, email FROM users WHERE id = $1', [completedBy]);
+
+  // The signing audit row closest to signed_at is the successful submission
+  // (rejected submissions are logged too)
+  const recipientsResult = await pool.query(
+    `SELECT u.full_name, u.email, dr.status, dr.signing_order, dr.signed_at,
+            COALESCE(dr.notified_at, dr.created_at) AS sent_at,
+            viewed.created_at AS viewed_at, viewed.ip_address AS viewed_ip,
+            signed.ip_address AS signed_ip, signed.user_agent AS signed_user_agent
+     FROM document_recipients dr
+     JOIN users u ON dr.recipient_id = u.id
+     LEFT JOIN LATERAL (
+       SELECT al.created_at, al.ip_address FROM audit_logs al
+       WHERE al.document_id = dr.document_id AND al.user_id = dr.recipient_id AND al.action = ANY($2)
+       ORDER BY al.created_at ASC
+       LIMIT 1
+     ) viewed ON TRUE
+     LEFT JOIN LATERAL (
+       SELECT al.ip_address, al.user_agent FROM audit_logs al
+       WHERE al.document_id = dr.document_id AND al.user_id = dr.recipient_id AND al.action = 'signed'
+         AND dr.signed_at IS NOT NULL
+       ORDER BY ABS(EXTRACT(EPOCH FROM (al.created_at - dr.signed_at))) ASC
+       LIMIT 1
+     ) signed ON TRUE
+     WHERE dr.document_id = $1
+     ORDER BY dr.signing_order, u.full_name`,
+    [documentId, VIEW_ACTIONS]
+  );
+
+  return {
+    documentId,
+    title: document.title,
+    originalFilename: document.original_filename,
+    originalSha256: sha256File(document.source_file_path || document.original_file_path),
+    convertedSha256: document.source_file_path ? sha256File(document.original_file_path) : null,
+    sender: { full_name: document.sender_name, email: document.sender_email },
+    createdAt: document.created_at,
+    completedAt: new Date(),
+    completedBy: completerResult.rows[0] || { full_name: 'Unknown', email: '' },
+    recipients: recipientsResult.rows,
+  };
+}
+
+function formatTimestamp(value: Date | null): string {
+  return value ? `${new Date(value).toISOString().replace('T', ' ').replace(/\.\d+Z$/, '')} UTC` : '-';
+}
+
+// Render the certificate of completion as a standalone PDF (A4 pages), to be
+// appended to the signed document before it is sealed
+export async function renderCompletionCertificate(evidence: CompletionEvidence): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  const fonts = createFontSet(pdfDoc);
+  const contentWidth = PAGE_WIDTH - MARGIN * 2;
+
+  let page: PDFPage = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN) {
+      page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+  };
+
+  const write = async (text: string, options: { family?: string; size?: number; indent?: number } = {}) => {
+    const size = options.size || 10;
+    const indent = options.indent || 0;
+    for (const line of wrapText(fonts, text, size, contentWidth - indent, options.family)) {
+      ensureSpace(LINE_HEIGHT);
+      await drawTextLine(page, fonts, line, MARGIN + indent, y - size, size, options.family);
+      y -= Math.max(LINE_HEIGHT, size + 4);
+    }
+  };
+
+  const field = (label: string, value: string, indent = 0) => write(`${label}: ${value}`, { indent });
+
+  const gap = (height = 8) => {
+    y -= height;
+  };
+
+  await write('Certificate of Completion', { family: 'sans-bold', size: 18 });
+  gap();
+  await field('Document', evidence.title);
+  await field('Document ID', String(evidence.documentId));
+  await field('Original file', evidence.originalFilename);
+  await field('Sent by', `${evidence.sender.full_name} <${evidence.sender.email}>`);
+  await field('Created', formatTimestamp(evidence.createdAt));
+  await field('Completed', formatTimestamp(evidence.completedAt));
+  await field('Completed by', `${evidence.completedBy.full_name} <${evidence.completedBy.email}>`);
+  gap(4);
+  await write('SHA-256 of the original document:', { family: 'sans-bold' });
+  await write(evidence.originalSha256, { family: 'mono', size: 9 });
+  if (evidence.convertedSha256) {
+    gap(4);
+    await write('SHA-256 of the PDF converted from it:', { family: 'sans-bold' });
+    await write(evidence.convertedSha256, { family: 'mono', size: 9 });
+  }
+  gap(12);
+
+  await write(`Recipients (${evidence.recipients.length})`, { family: 'sans-bold', size: 13 });
+  gap(4);
+
+  for (const recipient of evidence.recipients) {
+    ensureSpace(LINE_HEIGHT * 8);
+    await write(`${recipient.full_name} <${recipient.email}>`, { family: 'sans-bold' });
+    await field('Signing order', String(recipient.signing_order), 12);
+    await field('Status', recipient.status, 12);
+    await field('Sent', formatTimestamp(recipient.sent_at), 12);
+    await field('Viewed', recipient.viewed_at
+      ? `${formatTimestamp(recipient.viewed_at)} from ${recipient.viewed_ip || 'unknown IP'}`
+      : '-', 12);
+    await field('Signed', formatTimestamp(recipient.signed_at), 12);
+    await field('IP address', recipient.signed_ip || '-', 12);
+    await field('User agent', recipient.signed_user_agent || '-', 12);
+    gap();
+  }
+
+  gap(4);
+  await write(
+    'Times are taken from the EasySign audit log and shown in UTC. The hash identifies the original '
+      + 'document as uploaded, before any fields or signatures were added.',
+    { size: 8 }
+  );
+
+  return pdfDoc.save();
+}
@@ -0,0 +1,500 @@
+import pool from '../db/connection';
+import { DocumentField, FieldOptions } from '../types';
+import { isFontFamily, isTextAlign, listFontFamilies, TEXT_ALIGNMENTS, unsupportedCharacters } from './pdfFonts';
+import { normalizedToPoints } from './pageGeometry';
+
+export const FIELD_TYPES = [
+  'signature',
+  'initials',
+  'text',
+  'checkbox',
+  'date_signed',
+  'dropdown',
+  'radio',
+  'number',
+  'email',
+];
+// Filled with an image (stored in signatures); every other type is stored in text_fields
+const IMAGE_FIELD_TYPES = ['signature', 'initials'];
+// Drawn as text, so font, size and alignment apply (checkboxes and radios are glyphs)
+const STYLED_FIELD_TYPES = ['text', 'date_signed', 'dropdown', 'number', 'email'];
+export const DATE_FORMATS = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY', 'D MMMM YYYY', 'MMMM D, YYYY'];
+const DEFAULT_FONT_SIZE = 12;
+const MAX_TEXT_LENGTH = 1000;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const isPositive = (value: unknown) => typeof value === 'number' && isFinite(value) && value > 0;
+const isNonNegative = (value: unknown) => typeof value === 'number' && isFinite(value) && value >= 0;
+const isOptionalNumber = (value: unknown) => value === undefined || value === null || (typeof value === 'number' && isFinite(value));
+
+export function formatSigningDate(date: Date, format: string = DATE_FORMATS[0]): string {
+  const dd = String(date.getDate()).padStart(2, '0');
+  const mm = String(date.getMonth() + 1).padStart(2, '0');
+  const yyyy = String(date.getFullYear());
+  const month = MONTHS[date.getMonth()];
+
+  switch (format) {
+    case 'MM/DD/YYYY':
+      return `${mm}/${dd}/${yyyy}`;
+    case 'DD/MM/YYYY':
+      return `${dd}/${mm}/${yyyy}`;
+    case 'D MMMM YYYY':
+      return `${date.getDate()} ${month} ${yyyy}`;
+    case 'MMMM D, YYYY':
+      return `${month} ${date.getDate()}, ${yyyy}`;
+    default:
+      return `${yyyy}-${mm}-${dd}`;
+  }
+}
+
+// Text the PDF fonts can't draw would end up as empty boxes in the signed
+// file, so it is refused instead. Returns the reason, if any.
+function checkDrawable(text: string): string | undefined {
+  const missing = unsupportedCharacters(text);
+  return missing.length > 0
+    ? `contains characters that can't be printed in the PDF: ${missing.join(' ')}`
+    : undefined;
+}
+
+// Check font, font size and alignment, either placeholder defaults or the
+// values a recipient chose. Missing values are left out.
+function validateTextStyle(raw: { font?: unknown; font_size?: unknown; align?: unknown }): {
+  style: Pick<FieldOptions, 'font' | 'font_size' | 'align'>;
+  error?: string;
+} {
+  const style: Pick<FieldOptions, 'font' | 'font_size' | 'align'> = {};
+  if (raw.font !== undefined && raw.font !== null && raw.font !== '') {
+    if (!isFontFamily(raw.font)) {
+      return { style: {}, error: `font must be one of: ${listFontFamilies().join(', ')}` };
+    }
+    style.font = raw.font;
+  }
+  if (raw.font_size !== undefined && raw.font_size !== null && raw.font_size !== '') {
+    const fontSize = Number(raw.font_size);
+    if (!isPositive(fontSize)) {
+      return { style: {}, error: 'font size must be a positive number' };
+    }
+    style.font_size = fontSize;
+  }
+  if (raw.align !== undefined && raw.align !== null && raw.align !== '') {
+    if (!isTextAlign(raw.align)) {
+      return { style: {}, error: `alignment must be one of: ${TEXT_ALIGNMENTS.join(', ')}` };
+    }
+    style.align = raw.align;
+  }
+  return { style };
+}
+
+function validateFieldOptions(fieldType: string, options: any): { options: FieldOptions; error?: string } {
+  const checked = validateTypeOptions(fieldType, options);
+  if (checked.error || !STYLED_FIELD_TYPES.includes(fieldType)) {
+    return checked;
+  }
+  const raw = options && typeof options === 'object' ? options : {};
+  const styled = validateTextStyle(raw);
+  return styled.error
+    ? { options: {}, error: `options.${styled.error}` }
+    : { options: { ...checked.options, ...styled.style } };
+}
+
+// Check the settings a field type needs; returns the cleaned options or an error
+function validateTypeOptions(fieldType: string, options: any): { options: FieldOptions; error?: string } {
+  const raw = options && typeof options === 'object' ? options : {};
+
+  switch (fieldType) {
+    case 'dropdown': {
+      const choices = Array.isArray(raw.choices)
+        ? raw.choices.filter((c: unknown) => typeof c === 'string' && c.trim()).map((c: string) => c.trim())
+        : [];
+      if (choices.length === 0) {
+        return { options: {}, error: 'dropdown fields need options.choices' };
+      }
+      const undrawable = checkDrawable(choices.join(''));
+      if (undrawable) {
+        return { options: {}, error: `options.choices ${undrawable}` };
+      }
+      return { options: { choices } };
+    }
+    case 'radio': {
+      if (typeof raw.group !== 'string' || !raw.group.trim() || typeof raw.value !== 'string' || !raw.value.trim()) {
+        return { options: {}, error: 'radio fields need options.group and options.value' };
+      }
+      return { options: { group: raw.group.trim(), value: raw.value.trim() } };
+    }
+    case 'number': {
+      if (!isOptionalNumber(raw.min) || !isOptionalNumber(raw.max) || (raw.min != null && raw.max != null && raw.min > raw.max)) {
+        return { options: {}, error: 'options.min and options.max must be numbers with min <= max' };
+      }
+      return { options: { min: raw.min ?? undefined, max: raw.max ?? undefined } };
+    }
+    case 'date_signed': {
+      const format = raw.format ?? DATE_FORMATS[0];
+      if (!DATE_FORMATS.includes(format)) {
+        return { options: {}, error: `options.format must be one of: ${DATE_FORMATS.join(', ')}` };
+      }
+      return { options: { format } };
+    }
+    default:
+      return { options: {} };
+  }
+}
+
+// Check the field definitions sent by the document owner. Returns the
+// normalized fields, or the problems found (numbered from 1 like the list).
+// An initials field with all_pages set becomes one field on every page.
+export function validateFieldDefinitions(fields: unknown, pageCount: number): { fields: any[]; errors: string[] } {
+  if (!Array.isArray(fields)) {
+    return { fields: [], errors: ['Fields must be an array'] };
+  }
+
+  const errors: string[] = [];
+  const normalized = fields.flatMap((field: any, index: number) => {
+    const n = index + 1;
+    const allPages = field?.field_type === 'initials' && (field?.all_pages === true || field?.all_pages === 'true');
+    const rect = {
+      page_number: allPages ? 1 : Number(field?.page_number),
+      x_coordinate: Number(field?.x_coordinate),
+      y_coordinate: Number(field?.y_coordinate),
+      width: Number(field?.width),
+      height: Number(field?.height),
+    };
+
+    if (!FIELD_TYPES.includes(field?.field_type)) {
+      errors.push(`Field ${n}: field_type must be one of: ${FIELD_TYPES.join(', ')}`);
+    }
+    if (typeof field?.recipient_email !== 'string' || !field.recipient_email.includes('@')) {
+      errors.push(`Field ${n}: recipient_email is required`);
+    }
+    if (!Number.isInteger(rect.page_number) || rect.page_number < 1 || rect.page_number > pageCount) {
+      errors.push(`Field ${n}: page_number must be between 1 and ${pageCount}`);
+    }
+    if (!isNonNegative(rect.x_coordinate) || !isNonNegative(rect.y_coordinate)
+      || !isPositive(rect.width) || !isPositive(rect.height)) {
+      errors.push(`Field ${n}: x_coordinate, y_coordinate, width and height must be positive numbers`);
+    }
+
+    const checked = validateFieldOptions(field?.field_type, field?.options);
+    if (checked.error) {
+      errors.push(`Field ${n}: ${checked.error}`);
+    }
+
+    const normalizedField = {
+      ...rect,
+      field_type: field?.field_type,
+      recipient_email: typeof field?.recipient_email === 'string' ? field.recipient_email.toLowerCase().trim() : '',
+      required: field?.required !== false && field?.required !== 'false',
+      label: typeof field?.label === 'string' && field.label.trim() ? field.label.trim().substring(0, 255) : null,
+      options: checked.options,
+      // Set by resolveFormFieldRefs (services/acroForm.ts) from pdf_field
+      pdf_field_name: typeof field?.pdf_field_name === 'string' ? field.pdf_field_name : null,
+    };
+
+    if (!allPages) {
+      return [normalizedField];
+    }
+    return Array.from({ length: pageCount }, (_, page) => ({ ...normalizedField, page_number: page + 1 }));
+  });
+
+  return { fields: errors.length > 0 ? [] : normalized, errors };
+}
+
+export async function listDocumentFields(documentId: number): Promise<DocumentField[]> {
+  const result = await pool.query(
+    'SELECT * FROM document_fields WHERE document_id = $1 ORDER BY page_number, y_coordinate, x_coordinate, id',
+    [documentId]
+  );
+  return result.rows;
+}
+
+export async function listRecipientFields(documentId: number, recipientId: number): Promise<DocumentField[]> {
+  const result = await pool.query(
+    `SELECT * FROM document_fields
+     WHERE document_id = $1 AND recipient_id = $2
+     ORDER BY page_number, y_coordinate, x_coordinate, id`,
+    [documentId, recipientId]
+  );
+  return result.rows;
+}
+
+// Replace all of a document's fields with a new layout (the prepare editor
+// saves the whole set at once). Fields for emails already assigned to the
+// document are linked to that recipient straight away.
+export async function replaceDocumentFields(documentId: number, fields: any[]): Promise<DocumentField[]> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    await client.query('DELETE FROM document_fields WHERE document_id = $1', [documentId]);
+
+    for (const field of fields) {
+      await client.query(
+        `INSERT INTO document_fields
+           (document_id, recipient_email, recipient_id, field_type, page_number, x_coordinate, y_coordinate, width, height, required, label, options, pdf_field_name)
+         VALUES ($1, $2, (
+           SELECT u.id FROM users u
+           JOIN document_recipients dr ON dr.recipient_id = u.id
+           WHERE dr.document_id = $1 AND u.email = $2
+         ), $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+        [
+          documentId,
+          field.recipient_email,
+          field.field_type,
+          field.page_number,
+          field.x_coordinate,
+          field.y_coordinate,
+          field.width,
+          field.height,
+          field.required,
+          field.label,
+          JSON.stringify(field.options || {}),
+          field.pdf_field_name ?? null,
+        ]
+      );
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  return listDocumentFields(documentId);
+}
+
+// Called when an email is assigned to the document
+export async function linkFieldsToRecipient(documentId: number, email: string, recipientId: number): Promise<void> {
+  await pool.query(
+    `UPDATE document_fields SET recipient_id = $3, updated_at = CURRENT_TIMESTAMP
+     WHERE document_id = $1 AND recipient_email = $2`,
+    [documentId, email, recipientId]
+  );
+}
+
+// Check a submitted value against its field and return what gets stored in
+// text_content, or an error. Radio buttons store their option value.
+function normalizeFieldValue(field: DocumentField, raw: unknown): { value?: string; error?: string } {
+  const options = field.options || {};
+  const text = raw === undefined || raw === null ? '' : String(raw).trim();
+
+  switch (field.field_type) {
+    case 'checkbox':
+      return { value: raw === true || text === 'true' ? 'true' : 'false' };
+    case 'radio':
+      return raw === true || text === 'true' || text === options.value
+        ? { value: options.value }
+        : { error: `Field ${field.id} must be selected with true or "${options.value}"` };
+    case 'dropdown':
+      return options.choices?.includes(text)
+        ? { value: text }
+        : { error: `Field ${field.id} must be one of: ${(options.choices || []).join(', ')}` };
+    case 'number': {
+      const number = Number(text);
+      if (text === '' || !isFinite(number)) {
+        return { error: `Field ${field.id} must be a number` };
+      }
+      if ((options.min != null && number < options.min) || (options.max != null && number > options.max)) {
+        return { error: `Field ${field.id} must be between ${options.min ?? '-∞'} and ${options.max ?? '∞'}` };
+      }
+      return { value: String(number) };
+    }
+    case 'email':
+      return EMAIL_PATTERN.test(text)
+        ? { value: text.toLowerCase() }
+        : { error: `Field ${field.id} must be an email address` };
+    default: {
+      if (text.length > MAX_TEXT_LENGTH) {
+        return { error: `Field ${field.id} must be at most ${MAX_TEXT_LENGTH} characters` };
+      }
+      const undrawable = checkDrawable(text);
+      return undrawable
+        ? { error: `Field ${field.id} ${undrawable}` }
+        : { value: typeof raw === 'string' ? raw : text };
+    }
+  }
+}
+
+interface PlacedValues {
+  textFields: any[];
+  signatures: any[];
+  errors: string[];
+  // False for documents prepared without placeholders
+  usesPlaceholders: boolean;
+  // The placeholders this recipient has to fill
+  assignedFields: DocumentField[];
+}
+
+// Map the values a recipient submitted onto their placeholders. Each value
+// names the field_id it fills; page and rectangle always come from the
+// placeholder, never from the client. Date-signed fields are filled in by the
+// server when submitting. Documents prepared without any placeholders keep
+// accepting freely placed text and signatures; pass the displayed page sizes
+// when their coordinates are normalized (0 to 1) rather than points.
+export async function applyPlaceholders(
+  documentId: number,
+  recipientId: number,
+  textFields: any[],
+  signatures: any[],
+  submitting: boolean,
+  normalizedPageSizes: { width: number; height: number }[] | null = null
+): Promise<PlacedValues> {
+  const defined = await pool.query(
+    'SELECT COUNT(*) as count FROM document_fields WHERE document_id = $1',
+    [documentId]
+  );
+  if (parseInt(defined.rows[0].count) === 0) {
+    if (normalizedPageSizes) {
+      const text = normalizedToPoints(textFields, normalizedPageSizes, 'Text field');
+      const images = normalizedToPoints(signatures, normalizedPageSizes, 'Signature');
+      const coordinateErrors = [...text.errors, ...images.errors];
+      if (coordinateErrors.length > 0) {
+        return { textFields: [], signatures: [], errors: coordinateErrors, usesPlaceholders: false, assignedFields: [] };
+      }
+      textFields = text.items;
+      signatures = images.items;
+    }
+
+    const textErrors: string[] = [];
+    const freeText = textFields.map((value, index) => {
+      const styled = validateTextStyle({ font: value.font_family, align: value.text_align });
+      if (styled.error) {
+        textErrors.push(`Text field ${index + 1}: ${styled.error}`);
+      }
+      const undrawable = checkDrawable(String(value.text_content ?? ''));
+      if (undrawable) {
+        textErrors.push(`Text field ${index + 1} ${undrawable}`);
+      }
+      return {
+        ...value,
+        field_id: null,
+        field_type: 'text',
+        font_family: styled.style.font ?? null,
+        text_align: styled.style.align ?? 'left',
+      };
+    });
+    return {
+      textFields: textErrors.length > 0 ? [] : freeText,
+      signatures: signatures.map(value => ({ ...value, field_id: null, field_type: 'signature' })),
+      errors: textErrors,
+      usesPlaceholders: false,
+      assignedFields: [],
+    };
+  }
+
+  const assignedFields = await listRecipientFields(documentId, recipientId);
+  const assigned = new Map<number, DocumentField>(assignedFields.map(field => [field.id, field]));
+  const errors: string[] = [];
+  const filled = new Set<number>();
+  const chosenRadioGroups = new Set<string>();
+
+  const place = (value: any, wantImage: boolean, kind: string) => {
+    const field = assigned.get(parseInt(value?.field_id));
+    if (!field) {
+      errors.push(`${kind} must reference one of your fields (field_id ${value?.field_id ?? 'missing'})`);
+      return null;
+    }
+    if (IMAGE_FIELD_TYPES.includes(field.field_type) !== wantImage) {
+      errors.push(`Field ${field.id} is a ${field.field_type} field`);
+      return null;
+    }
+    if (filled.has(field.id)) {
+      errors.push(`Field ${field.id} was filled more than once`);
+      return null;
+    }
+    filled.add(field.id);
+    return {
+      field: {
+        field_id: field.id,
+        field_type: field.field_type,
+        page_number: field.page_number,
+        x_coordinate: field.x_coordinate,
+        y_coordinate: field.y_coordinate,
+        width: field.width,
+        height: field.height,
+      },
+      definition: field,
+    };
+  };
+
+  const placedText: any[] = [];
+  for (const value of textFields) {
+    const placement = place(value, false, 'Field value');
+    // The signing date is never taken from the client
+    if (!placement || placement.definition.field_type === 'date_signed') {
+      continue;
+    }
+
+    // A blank value leaves the field unfilled (required fields are checked on submit)
+    const raw = value.value ?? value.text_content;
+    if (raw === undefined || raw === null || (typeof raw === 'string' && !raw.trim())) {
+      continue;
+    }
+
+    const normalized = normalizeFieldValue(placement.definition, raw);
+    if (normalized.error) {
+      errors.push(normalized.error);
+      continue;
+    }
+
+    if (placement.definition.field_type === 'radio') {
+      const group = placement.definition.options.group!;
+      if (chosenRadioGroups.has(group)) {
+        errors.push(`Only one option of "${group}" can be selected`);
+        continue;
+      }
+      chosenRadioGroups.add(group);
+    }
+
+    // The recipient's font choices win over the sender's defaults
+    const options = placement.definition.options || {};
+    const styled = validateTextStyle({ font: value.font_family, font_size: value.font_size, align: value.text_align });
+    if (styled.error) {
+      errors.push(`Field ${placement.definition.id}: ${styled.error}`);
+      continue;
+    }
+    placedText.push({
+      ...placement.field,
+      text_content: normalized.value,
+      font_size: styled.style.font_size ?? options.font_size ?? DEFAULT_FONT_SIZE,
+      font_family: styled.style.font ?? options.font ?? null,
+      text_align: styled.style.align ?? options.align ?? 'left',
+    });
+  }
+
+  if (submitting) {
+    const signedOn = new Date();
+    for (const field of assignedFields.filter(f => f.field_type === 'date_signed')) {
+      placedText.push({
+        field_id: field.id,
+        field_type: field.field_type,
+        page_number: field.page_number,
+        x_coordinate: field.x_coordinate,
+        y_coordinate: field.y_coordinate,
+        width: field.width,
+        height: field.height,
+        text_content: formatSigningDate(signedOn, field.options?.format),
+        font_size: field.options?.font_size ?? DEFAULT_FONT_SIZE,
+        font_family: field.options?.font ?? null,
+        text_align: field.options?.align ?? 'left',
+      });
+    }
+  }
+
+  const placedSignatures: any[] = [];
+  for (const value of signatures) {
+    const placement = place(value, true, 'Signature');
+    if (placement) {
+      placedSignatures.push({ ...value, ...placement.field });
+    }
+  }
+
+  if (errors.length > 0) {
+    return { textFields: [], signatures: [], errors, usesPlaceholders: true, assignedFields };
+  }
+  return { textFields: placedText, signatures: placedSignatures, errors, usesPlaceholders: true, assignedFields };
+}
@@ -1,54 +1,76 @@
 import fs from 'fs';
-import path from 'path';
-import mammoth from 'mammoth';
-import { PDFDocument } from 'pdf-lib';
+import { renderDocx } from './docxRenderer';
+import { convertWithLibreOffice, isLibreOfficeAvailable } from './libreOfficeConverter';
 
-const UPLOAD_DIR = process.env.UPLOAD_DIR || './uploads';
+// Word uploads are converted to PDF once, on upload. Converters are tried in
+// the order WORD_CONVERTER picks: "auto" (the default) prefers LibreOffice
+// where it is installed and falls back to the built-in renderer.
+
+// A Word file that can't be converted; the message can be shown to the uploader
+export class WordConversionError extends Error {}
+
+interface WordConverter {
+  name: string;
+  // File extensions the converter reads
+  extensions: string[];
+  isAvailable(): Promise<boolean>;
+  convert(wordFilePath: string): Promise<Uint8Array>;
+}
+
+const WORD_CONVERTERS: WordConverter[] = [
+  {
+    name: 'libreoffice',
+    extensions: ['doc', 'docx'],
+    isAvailable: isLibreOfficeAvailable,
+    convert: convertWithLibreOffice,
+  },
+  {
+    name: 'builtin',
+    extensions: ['docx'],
+    isAvailable: async () => true,
+    convert: renderDocx,
+  },
+];
+
+const WORD_CONVERTER = (process.env.WORD_CONVERTER || 'auto').toLowerCase();
+
+function configuredConverters(): WordConverter[] {
+  if (WORD_CONVERTER === 'auto') {
+    return WORD_CONVERTERS;
+  }
+  const converter = WORD_CONVERTERS.find(candidate => candidate.name === WORD_CONVERTER);
+  if (!converter) {
+    throw new Error(`Unknown WORD_CONVERTER "${WORD_CONVERTER}"; use auto, ${WORD_CONVERTERS.map(c => c.name).join(', ')}`);
+  }
+  return [converter];
+}
 
 export async function convertWordToPDF(wordFilePath: string, outputPdfPath: string): Promise<void> {
-  try {
-    // Read Word document
-    const result = await mammoth.convertToHtml({ path: wordFilePath });
-    const html = result.value;
-    
-    // For now, we'll create a simple PDF from HTML
-    // In production, you might want to use a library like puppeteer or pdfkit
-    // For this implementation, we'll create a basic PDF with the text content
-    
-    const pdfDoc = await PDFDocument.create();
-    const page = pdfDoc.addPage([612, 792]); // US Letter size
-    
-    // Extract text from HTML (basic extraction)
-    const textContent = html.replace(/<[^>]*>/g, '').replace(/&nbsp;/g, ' ');
-    const lines = textContent.split('\n').filter(line => line.trim());
-    
-    let y = 750;
-    const fontSize = 12;
-    const lineHeight = 15;
-    
-    for (const line of lines) {
-      if (y < 50) {
-        const newPage = pdfDoc.addPage([612, 792]);
-        y = 750;
-      }
-      
-      page.drawText(line.substring(0, 80), {
-        x: 50,
-        y: y,
-        size: fontSize,
-      });
-      
-      y -= lineHeight;
+  const extension = getFileExtension(wordFilePath);
+  const converters: WordConverter[] = [];
+  for (const converter of configuredConverters()) {
+    if (converter.extensions.includes(extension) && await converter.isAvailable()) {
+      converters.push(converter);
     }
-    
-    const pdfBytes = await pdfDoc.save();
-    fs.writeFileSync(outputPdfPath, pdfBytes);
-    
-    console.log(`✅ Converted Word to PDF: ${outputPdfPath}`);
-  } catch (error) {
-    console.error('❌ Word to PDF conversion failed:', error);
-    throw new Error('Failed to convert Word document to PDF');
   }
+  if (converters.length === 0) {
+    throw new WordConversionError(extension === 'doc'
+      ? 'Legacy .doc files can only be converted with LibreOffice; save the document as .docx and upload it again'
+      : `No Word converter is available for .${extension} files`);
+  }
+
+  for (const converter of converters) {
+    try {
+      const pdfBytes = await converter.convert(wordFilePath);
+      fs.writeFileSync(outputPdfPath, pdfBytes);
+      console.log(`✅ Converted Word to PDF with ${converter.name}: ${outputPdfPath}`);
+      return;
+    } catch (error) {
+      // The next converter may still manage
+      console.error(`❌ Word to PDF conversion with ${converter.name} failed:`, error);
+    }
+  }
+  throw new WordConversionError('The Word document could not be converted to PDF; it may be damaged or password-protected');
 }
 
 export function getFileExtension(filename: string): string {
@@ -63,4 +85,3 @@ export function isWordDocument(filename: string): boolean {
 export function isPDF(filename: string): boolean {
   return getFileExtension(filename) === 'pdf';
 }
-
@@ -0,0 +1,114 @@
+import fs from 'fs';
+import pool from '../db/connection';
+import { DocumentVersion, VersionTrigger } from '../types';
+import { resolveStoredPath } from './fileAccess';
+import { FileHashKind, recordFileHash } from './fileHashes';
+
+// How many generated versions per document keep their file (the uploaded
+// original and the current version are always kept); 0 keeps everything
+export const DOCUMENT_VERSION_RETENTION = parseInt(process.env.DOCUMENT_VERSION_RETENTION || '0');
+
+// Record a stored or generated PDF as the document's next version (and in the
+// hash registry), then apply retention to older versions
+export async function recordDocumentVersion(
+  documentId: number,
+  trigger: VersionTrigger,
+  filePath: string,
+  actorId: number | null,
+  hashKind: FileHashKind = trigger === 'uploaded' ? 'original' : 'signed'
+): Promise<DocumentVersion> {
+  const sha256 = await recordFileHash(documentId, hashKind, filePath, actorId);
+
+  const client = await pool.connect();
+  let version: DocumentVersion;
+  try {
+    await client.query('BEGIN');
+    // Serialize numbering when several recipients submit at once
+    await client.query('SELECT id FROM documents WHERE id = $1 FOR UPDATE', [documentId]);
+    const result = await client.query(
+      `INSERT INTO document_versions (document_id, version_number, trigger, actor_id, file_path, sha256)
+       SELECT $1, COALESCE(MAX(version_number), 0) + 1, $2, $3, $4, $5
+       FROM document_versions WHERE document_id = $1
+       RETURNING *`,
+      [documentId, trigger, actorId, filePath, sha256]
+    );
+    await client.query('COMMIT');
+    version = result.rows[0];
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  try {
+    await pruneDocumentVersions(documentId);
+  } catch (error) {
+    console.error(`⚠️ Failed to apply version retention for document ${documentId}:`, error);
+  }
+
+  return version;
+}
+
+// Delete the files of generated versions beyond the retention limit. The rows
+// stay (with file_deleted_at set) so the history and hashes remain complete.
+export async function pruneDocumentVersions(documentId: number): Promise<number> {
+  if (DOCUMENT_VERSION_RETENTION <= 0) {
+    return 0;
+  }
+
+  const expired = await pool.query(
+    `SELECT v.id, v.file_path FROM document_versions v
+     JOIN documents d ON v.document_id = d.id
+     WHERE v.document_id = $1
+       AND v.trigger <> 'uploaded'
+       AND v.file_deleted_at IS NULL
+       AND v.file_path <> COALESCE(d.signed_file_path, '')
+     ORDER BY v.version_number DESC
+     OFFSET $2`,
+    // The current version counts towards the limit
+    [documentId, Math.max(DOCUMENT_VERSION_RETENTION - 1, 0)]
+  );
+
+  for (const version of expired.rows) {
+    // Another version may share the file (e.g. after a backfill)
+    const shared = await pool.query(
+      `SELECT 1 FROM document_versions
+       WHERE file_path = $1 AND id <> $2 AND file_deleted_at IS NULL`,
+      [version.file_path, version.id]
+    );
+    if (shared.rows.length === 0) {
+      fs.rmSync(resolveStoredPath(version.file_path), { force: true });
+    }
+    await pool.query(
+      'UPDATE document_versions SET file_deleted_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [version.id]
+    );
+  }
+
+  return expired.rows.length;
+}
+
+export async function listDocumentVersions(documentId: number) {
+  const result = await pool.query(
+    `SELECT v.id, v.version_number, v.trigger, v.actor_id, u.full_name AS actor_name, u.email AS actor_email,
+            v.sha256, v.created_at, v.file_deleted_at,
+            (v.file_deleted_at IS NULL) AS available,
+            (v.file_path = COALESCE(d.signed_file_path, d.original_file_path)) AS is_current
+     FROM document_versions v
+     JOIN documents d ON v.document_id = d.id
+     LEFT JOIN users u ON v.actor_id = u.id
+     WHERE v.document_id = $1
+     ORDER BY v.version_number DESC`,
+    [documentId]
+  );
+  return result.rows;
+}
+
+export async function findDocumentVersion(documentId: number, versionId: number): Promise<DocumentVersion | null> {
+  const result = await pool.query(
+    'SELECT * FROM document_versions WHERE id = $1 AND document_id = $2',
+    [versionId, documentId]
+  );
+  return result.rows[0] || null;
+}
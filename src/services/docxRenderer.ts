@@ -0,0 +1,681 @@
+import mammoth from 'mammoth';
+import { PDFDocument, PDFImage, PDFPage, rgb } from 'pdf-lib';
+import { createFontSet, drawTextLine, FontSet } from './pdfFonts';
+
+// The built-in Word converter. mammoth reads the .docx into semantic HTML
+// (headings, paragraphs, lists, tables, images and bold/italic/underline/
+// strikethrough runs), which is laid out here onto PDF pages with wrapping
+// and pagination. mammoth doesn't report Word's page setup, fonts or spacing,
+// so those follow a fixed house style; LibreOffice keeps them where installed.
+
+const PAGE_SIZES: Record<string, [number, number]> = {
+  letter: [612, 792],
+  a4: [595.28, 841.89],
+};
+const PAGE_SIZE = PAGE_SIZES[(process.env.WORD_PAGE_SIZE || 'letter').toLowerCase()] || PAGE_SIZES.letter;
+const MARGIN = 72;
+const BODY_SIZE = 11;
+const HEADING_SIZES = [20, 16, 14, 12, 11, 11];
+const LINE_SPACING = 1.25;
+const PARAGRAPH_SPACING = 6;
+const LIST_ITEM_SPACING = 2;
+const LIST_INDENT = 18;
+const BULLETS = ['•', '◦', '▪'];
+const CELL_PADDING = 4;
+const TAB = '    ';
+const TEXT_COLOR = rgb(0, 0, 0);
+const LINK_COLOR = rgb(0.02, 0.27, 0.68);
+const BORDER_COLOR = rgb(0.5, 0.5, 0.5);
+// Images are sized as Word shows them at 96 dpi
+const POINTS_PER_PIXEL = 0.75;
+
+// mammoth drops underline, strikethrough and page breaks unless they're mapped
+const STYLE_MAP = ['u => u', 'strike => s', "br[type='page'] => hr"];
+
+interface HtmlElement {
+  tag: string;
+  attributes: Record<string, string>;
+  children: HtmlNode[];
+}
+
+type HtmlNode = HtmlElement | string;
+
+const VOID_TAGS = ['br', 'hr', 'img'];
+const HEADING_TAGS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'];
+const BLOCK_TAGS = ['p', ...HEADING_TAGS, 'ul', 'ol', 'table', 'hr', 'div', 'blockquote', 'dl', 'dt', 'dd'];
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    const name = code.toLowerCase();
+    if (name.startsWith('#x')) {
+      return String.fromCodePoint(parseInt(name.slice(2), 16));
+    }
+    if (name.startsWith('#')) {
+      return String.fromCodePoint(parseInt(name.slice(1), 10));
+    }
+    return ENTITIES[name] ?? entity;
+  });
+}
+
+// mammoth writes a small, well-formed subset of HTML, so tokenizing tags is enough
+function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: 'root', attributes: {}, children: [] };
+  const stack = [root];
+
+  for (const [, closing, rawTag, rawAttributes, selfClosing, text] of html.matchAll(/<(\/?)([a-zA-Z0-9]+)([^>]*?)(\/?)>|([^<]+)/g)) {
+    const parent = stack[stack.length - 1];
+    if (text !== undefined) {
+      parent.children.push(decodeEntities(text));
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    if (closing) {
+      const open = stack.map(element => element.tag).lastIndexOf(tag);
+      if (open > 0) {
+        stack.length = open;
+      }
+      continue;
+    }
+
+    const attributes: Record<string, string> = {};
+    for (const [, name, value] of rawAttributes.matchAll(/([^\s=]+)(?:="([^"]*)")?/g)) {
+      attributes[name.toLowerCase()] = decodeEntities(value ?? '');
+    }
+    const element: HtmlElement = { tag, attributes, children: [] };
+    parent.children.push(element);
+    if (!selfClosing && !VOID_TAGS.includes(tag)) {
+      stack.push(element);
+    }
+  }
+
+  return root;
+}
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  script?: 'sup' | 'sub';
+  link?: boolean;
+}
+
+type Inline =
+  | { kind: 'text'; text: string; style: RunStyle }
+  | { kind: 'image'; src: string }
+  | { kind: 'break' }
+  | { kind: 'pageBreak' };
+
+interface TableCell {
+  blocks: Block[];
+  colspan: number;
+  rowspan: number;
+}
+
+type Block =
+  | { kind: 'paragraph'; inlines: Inline[]; heading: number; depth: number; marker?: string }
+  | { kind: 'table'; rows: TableCell[][] }
+  | { kind: 'pageBreak' };
+
+function collectInlines(nodes: HtmlNode[], style: RunStyle, out: Inline[]): void {
+  for (const node of nodes) {
+    if (typeof node === 'string') {
+      out.push({ kind: 'text', text: node.replace(/\t/g, TAB).replace(/[\r\n]+/g, ' '), style });
+      continue;
+    }
+
+    switch (node.tag) {
+      case 'strong':
+      case 'b':
+        collectInlines(node.children, { ...style, bold: true }, out);
+        break;
+      case 'em':
+      case 'i':
+        collectInlines(node.children, { ...style, italic: true }, out);
+        break;
+      case 'u':
+        collectInlines(node.children, { ...style, underline: true }, out);
+        break;
+      case 's':
+      case 'del':
+        collectInlines(node.children, { ...style, strike: true }, out);
+        break;
+      case 'sup':
+      case 'sub':
+        collectInlines(node.children, { ...style, script: node.tag }, out);
+        break;
+      case 'a':
+        collectInlines(node.children, node.attributes.href ? { ...style, link: true } : style, out);
+        break;
+      case 'br':
+        out.push({ kind: 'break' });
+        break;
+      case 'hr':
+        out.push({ kind: 'pageBreak' });
+        break;
+      case 'img':
+        if (node.attributes.src) {
+          out.push({ kind: 'image', src: node.attributes.src });
+        }
+        break;
+      case 'p':
+        // Several paragraphs in one list item or cell
+        if (out.length > 0) {
+          out.push({ kind: 'break' });
+        }
+        collectInlines(node.children, style, out);
+        break;
+      default:
+        collectInlines(node.children, style, out);
+    }
+  }
+}
+
+function collectList(list: HtmlElement, depth: number, style: RunStyle): Block[] {
+  const blocks: Block[] = [];
+  let number = 1;
+
+  for (const item of list.children) {
+    if (typeof item === 'string' || item.tag !== 'li') {
+      continue;
+    }
+    const nested = item.children.filter(
+      (child): child is HtmlElement => typeof child !== 'string' && ['ul', 'ol', 'table'].includes(child.tag)
+    );
+    const inlines: Inline[] = [];
+    collectInlines(item.children.filter(child => !nested.includes(child as HtmlElement)), style, inlines);
+    blocks.push({
+      kind: 'paragraph',
+      inlines,
+      heading: 0,
+      depth: depth + 1,
+      marker: list.tag === 'ol' ? `${number++}.` : BULLETS[depth % BULLETS.length],
+    });
+
+    for (const child of nested) {
+      blocks.push(...(child.tag === 'table' ? [collectTable(child, style)] : collectList(child, depth + 1, style)));
+    }
+  }
+
+  return blocks;
+}
+
+function collectTable(table: HtmlElement, style: RunStyle): Block {
+  const rows: TableCell[][] = [];
+  const visit = (nodes: HtmlNode[]) => {
+    for (const node of nodes) {
+      if (typeof node === 'string') {
+        continue;
+      }
+      if (node.tag === 'tr') {
+        rows.push(node.children
+          .filter((cell): cell is HtmlElement => typeof cell !== 'string' && (cell.tag === 'td' || cell.tag === 'th'))
+          .map(cell => ({
+            blocks: collectBlocks(cell.children, 0, cell.tag === 'th' ? { ...style, bold: true } : style),
+            colspan: Math.max(1, parseInt(cell.attributes.colspan) || 1),
+            rowspan: Math.max(1, parseInt(cell.attributes.rowspan) || 1),
+          })));
+      } else if (['thead', 'tbody', 'tfoot'].includes(node.tag)) {
+        visit(node.children);
+      }
+    }
+  };
+  visit(table.children);
+  return { kind: 'table', rows };
+}
+
+function collectBlocks(nodes: HtmlNode[], depth: number, style: RunStyle): Block[] {
+  const blocks: Block[] = [];
+  // Inline content outside any paragraph, e.g. directly in a table cell
+  let loose: HtmlNode[] = [];
+  const flushLoose = () => {
+    const inlines: Inline[] = [];
+    collectInlines(loose, style, inlines);
+    if (inlines.some(inline => inline.kind !== 'text' || inline.text.trim())) {
+      blocks.push({ kind: 'paragraph', inlines, heading: 0, depth });
+    }
+    loose = [];
+  };
+
+  for (const node of nodes) {
+    if (typeof node === 'string' || !BLOCK_TAGS.includes(node.tag)) {
+      loose.push(node);
+      continue;
+    }
+    flushLoose();
+
+    if (node.tag === 'p' || HEADING_TAGS.includes(node.tag)) {
+      const heading = HEADING_TAGS.indexOf(node.tag) + 1;
+      const inlines: Inline[] = [];
+      collectInlines(node.children, heading > 0 ? { ...style, bold: true } : style, inlines);
+      blocks.push({ kind: 'paragraph', inlines, heading, depth });
+    } else if (node.tag === 'ul' || node.tag === 'ol') {
+      blocks.push(...collectList(node, depth, style));
+    } else if (node.tag === 'table') {
+      blocks.push(collectTable(node, style));
+    } else if (node.tag === 'hr') {
+      blocks.push({ kind: 'pageBreak' });
+    } else {
+      blocks.push(...collectBlocks(node.children, depth, style));
+    }
+  }
+  flushLoose();
+
+  return blocks;
+}
+
+// One laid-out line of the document (or a whole table row), drawn from the
+// top down at a given position
+interface Line {
+  height: number;
+  // Vertical space that is dropped at the top of a page
+  spacer?: boolean;
+  pageBreak?: boolean;
+  draw?(page: PDFPage, x: number, top: number): Promise<void>;
+  // For lines taller than the space left on a page: the part that fits into
+  // `available` and the rest, or null if nothing fits
+  split?(available: number): [Line, Line] | null;
+}
+
+// A word, space or image placed on a line, drawn on its baseline
+interface Piece {
+  width: number;
+  ascent: number;
+  descent: number;
+  space?: boolean;
+  draw(page: PDFPage, x: number, baseline: number): Promise<void>;
+}
+
+interface LayoutContext {
+  pdfDoc: PDFDocument;
+  fonts: FontSet;
+  images: Map<string, Promise<PDFImage | null>>;
+  contentHeight: number;
+}
+
+function familyOf(style: RunStyle): string {
+  if (style.bold && style.italic) {
+    return 'sans-bold-italic';
+  }
+  return style.bold ? 'sans-bold' : style.italic ? 'sans-italic' : 'sans';
+}
+
+// Ascent and descent of a line of text at a size, with the leading split above and below
+function lineMetrics(size: number) {
+  const leading = (size * (LINE_SPACING - 1)) / 2;
+  return { ascent: size * 0.8 + leading, descent: size * 0.2 + leading };
+}
+
+function textPiece(fonts: FontSet, text: string, style: RunStyle, baseSize: number): Piece {
+  const size = style.script ? baseSize * 0.7 : baseSize;
+  const family = familyOf(style);
+  const shift = style.script === 'sup' ? baseSize * 0.35 : style.script === 'sub' ? -baseSize * 0.15 : 0;
+  const color = style.link ? LINK_COLOR : TEXT_COLOR;
+  const width = fonts.widthOf(text, size, family);
+  const metrics = lineMetrics(baseSize);
+
+  return {
+    width,
+    ascent: metrics.ascent + Math.max(shift, 0),
+    descent: metrics.descent,
+    space: !text.trim(),
+    draw: async (page, x, baseline) => {
+      const y = baseline + shift;
+      await drawTextLine(page, fonts, text, x, y, size, family, color);
+      const thickness = size * 0.05;
+      if (style.underline || style.link) {
+        page.drawLine({ start: { x, y: y - size * 0.12 }, end: { x: x + width, y: y - size * 0.12 }, thickness, color });
+      }
+      if (style.strike) {
+        page.drawLine({ start: { x, y: y + size * 0.28 }, end: { x: x + width, y: y + size * 0.28 }, thickness, color });
+      }
+    },
+  };
+}
+
+// mammoth inlines images as data URIs; PNG and JPEG can be embedded as they
+// are, other formats (EMF, WMF, GIF...) are left out
+function embedImage(context: LayoutContext, src: string): Promise<PDFImage | null> {
+  let image = context.images.get(src);
+  if (!image) {
+    const format = src.match(/^data:image\/(png|jpe?g);base64,/i)?.[1].toLowerCase();
+    image = !format
+      ? Promise.resolve(null)
+      : (format === 'png' ? context.pdfDoc.embedPng(src) : context.pdfDoc.embedJpg(src)).catch(error => {
+        console.warn('⚠️ Skipping an image that could not be embedded:', error.message);
+        return null;
+      });
+    if (!format) {
+      console.warn(`⚠️ Skipping an image in an unsupported format: ${src.substring(0, 30)}...`);
+    }
+    context.images.set(src, image);
+  }
+  return image;
+}
+
+function imagePiece(image: PDFImage, maxWidth: number, maxHeight: number): Piece {
+  const scale = Math.min(1, maxWidth / (image.width * POINTS_PER_PIXEL), maxHeight / (image.height * POINTS_PER_PIXEL));
+  const width = image.width * POINTS_PER_PIXEL * scale;
+  const height = image.height * POINTS_PER_PIXEL * scale;
+  return {
+    width,
+    ascent: height,
+    descent: lineMetrics(BODY_SIZE).descent,
+    draw: async (page, x, baseline) => {
+      page.drawImage(image, { x, y: baseline, width, height });
+    },
+  };
+}
+
+async function layoutParagraph(
+  context: LayoutContext,
+  block: Extract<Block, { kind: 'paragraph' }>,
+  width: number
+): Promise<Line[]> {
+  const size = block.heading > 0 ? HEADING_SIZES[block.heading - 1] : BODY_SIZE;
+  const indent = block.depth * LIST_INDENT;
+  const available = Math.max(width - indent, LIST_INDENT);
+  const empty = lineMetrics(size);
+  const lines: Line[] = [];
+  if (block.heading > 0) {
+    lines.push({ height: size * 0.5, spacer: true });
+  }
+
+  let current: Piece[] = [];
+  let currentWidth = 0;
+  let marker = block.marker;
+
+  const finishLine = () => {
+    // Spaces at the end of a wrapped line aren't drawn (or underlined)
+    while (current.length > 0 && current[current.length - 1].space) {
+      current.pop();
+    }
+    const pieces = current;
+    const lineMarker = marker;
+    const ascent = Math.max(empty.ascent, ...pieces.map(piece => piece.ascent));
+    const descent = Math.max(empty.descent, ...pieces.map(piece => piece.descent));
+    lines.push({
+      height: ascent + descent,
+      draw: async (page, x, top) => {
+        const baseline = top - ascent;
+        let position = x + indent;
+        if (lineMarker) {
+          await drawTextLine(page, context.fonts, lineMarker, position - LIST_INDENT + 2, baseline, size, 'sans');
+        }
+        for (const piece of pieces) {
+          await piece.draw(page, position, baseline);
+          position += piece.width;
+        }
+      },
+    });
+    current = [];
+    currentWidth = 0;
+    marker = undefined;
+  };
+
+  const add = (piece: Piece) => {
+    if (piece.space && current.length === 0) {
+      return;
+    }
+    if (currentWidth + piece.width > available && current.length > 0) {
+      finishLine();
+      if (piece.space) {
+        return;
+      }
+    }
+    current.push(piece);
+    currentWidth += piece.width;
+  };
+
+  for (const inline of block.inlines) {
+    if (inline.kind === 'break') {
+      finishLine();
+    } else if (inline.kind === 'pageBreak') {
+      if (current.length > 0) {
+        finishLine();
+      }
+      lines.push({ height: 0, pageBreak: true });
+    } else if (inline.kind === 'image') {
+      const image = await embedImage(context, inline.src);
+      if (image) {
+        add(imagePiece(image, available, context.contentHeight - empty.descent));
+      }
+    } else {
+      for (const word of inline.text.split(/( +)/).filter(Boolean)) {
+        const piece = textPiece(context.fonts, word, inline.style, size);
+        if (piece.space || piece.width <= available) {
+          add(piece);
+          continue;
+        }
+        // A word wider than the line is broken wherever it has to be
+        let chunk = '';
+        for (const char of word) {
+          if (chunk && textPiece(context.fonts, chunk + char, inline.style, size).width > available) {
+            add(textPiece(context.fonts, chunk, inline.style, size));
+            chunk = '';
+          }
+          chunk += char;
+        }
+        add(textPiece(context.fonts, chunk, inline.style, size));
+      }
+    }
+  }
+  if (current.length > 0 || marker !== undefined || !lines.some(line => line.draw)) {
+    finishLine();
+  }
+
+  lines.push({ height: block.marker ? LIST_ITEM_SPACING : PARAGRAPH_SPACING, spacer: true });
+  return lines;
+}
+
+interface CellSlot {
+  x: number;
+  width: number;
+  lines: Line[];
+  // Cells spanning several rows have no border between their rows
+  top: boolean;
+  bottom: boolean;
+}
+
+function drawBorder(page: PDFPage, x1: number, y1: number, x2: number, y2: number): void {
+  page.drawLine({ start: { x: x1, y: y1 }, end: { x: x2, y: y2 }, thickness: 0.5, color: BORDER_COLOR });
+}
+
+function contentHeight(lines: Line[]): number {
+  return lines.reduce((sum, line) => sum + line.height, 0);
+}
+
+function withoutLeadingSpacers(lines: Line[]): Line[] {
+  const first = lines.findIndex(line => !line.spacer);
+  return first < 0 ? [] : lines.slice(first);
+}
+
+function tableRow(slots: CellSlot[], minHeight = 0): Line {
+  const height = Math.max(minHeight, ...slots.map(slot => contentHeight(slot.lines) + 2 * CELL_PADDING));
+
+  return {
+    height,
+    draw: async (page, x, top) => {
+      const bottom = top - height;
+      for (const slot of slots) {
+        const left = x + slot.x;
+        const right = left + slot.width;
+        drawBorder(page, left, top, left, bottom);
+        drawBorder(page, right, top, right, bottom);
+        if (slot.top) {
+          drawBorder(page, left, top, right, top);
+        }
+        if (slot.bottom) {
+          drawBorder(page, left, bottom, right, bottom);
+        }
+
+        let y = top - CELL_PADDING;
+        for (const line of slot.lines) {
+          await line.draw?.(page, left + CELL_PADDING, y);
+          y -= line.height;
+        }
+      }
+    },
+    // Rows taller than the rest of the page continue on the next one
+    split: available => {
+      const room = available - 2 * CELL_PADDING;
+      const fitting = slots.map(slot => {
+        let used = 0;
+        let count = 0;
+        while (count < slot.lines.length && used + slot.lines[count].height <= room) {
+          used += slot.lines[count].height;
+          count++;
+        }
+        return count;
+      });
+      if (!fitting.some(count => count > 0)) {
+        return null;
+      }
+      return [
+        tableRow(slots.map((slot, index) => ({ ...slot, lines: slot.lines.slice(0, fitting[index]), bottom: true })), available),
+        tableRow(slots.map((slot, index) => ({ ...slot, lines: withoutLeadingSpacers(slot.lines.slice(fitting[index])), top: true }))),
+      ];
+    },
+  };
+}
+
+async function layoutTable(context: LayoutContext, block: Extract<Block, { kind: 'table' }>, width: number): Promise<Line[]> {
+  // Place cells on the column grid; cells spanning rows cover columns below them
+  const covering: number[] = [];
+  // The colspan of the covering cell on its first column, 0 on the others
+  const spans: number[] = [];
+  const placed = block.rows.map(row => {
+    const continued = covering
+      .map((rows, column) => ({ column, span: spans[column], last: rows === 1 }))
+      .filter(({ column, span }) => covering[column] > 0 && span > 0);
+    const cells: { cell: TableCell; column: number }[] = [];
+    let column = 0;
+    for (const cell of row) {
+      while (covering[column] > 0) {
+        column++;
+      }
+      cells.push({ cell, column });
+      for (let spanned = column; spanned < column + cell.colspan; spanned++) {
+        covering[spanned] = cell.rowspan;
+        spans[spanned] = spanned === column ? cell.colspan : 0;
+      }
+      column += cell.colspan;
+    }
+    for (let index = 0; index < covering.length; index++) {
+      covering[index] = Math.max((covering[index] || 0) - 1, 0);
+    }
+    return { cells, continued };
+  });
+
+  const columnCount = Math.max(1, ...placed.flatMap(row => [
+    ...row.cells.map(({ cell, column }) => column + cell.colspan),
+    ...row.continued.map(({ column, span }) => column + span),
+  ]));
+  const columnWidth = width / columnCount;
+
+  const lines: Line[] = [];
+  for (const row of placed) {
+    const slots: CellSlot[] = [];
+    for (const { cell, column } of row.cells) {
+      const cellWidth = cell.colspan * columnWidth;
+      const cellLines = await layoutBlocks(context, cell.blocks, cellWidth - 2 * CELL_PADDING);
+      // Paragraph spacing after the last paragraph would only pad the cell
+      while (cellLines.length > 0 && cellLines[cellLines.length - 1].spacer) {
+        cellLines.pop();
+      }
+      slots.push({ x: column * columnWidth, width: cellWidth, lines: cellLines, top: true, bottom: cell.rowspan === 1 });
+    }
+    for (const { column, span, last } of row.continued) {
+      slots.push({ x: column * columnWidth, width: span * columnWidth, lines: [], top: false, bottom: last });
+    }
+    lines.push(tableRow(slots));
+  }
+
+  lines.push({ height: PARAGRAPH_SPACING, spacer: true });
+  return lines;
+}
+
+async function layoutBlocks(context: LayoutContext, blocks: Block[], width: number): Promise<Line[]> {
+  const lines: Line[] = [];
+  for (const block of blocks) {
+    if (block.kind === 'paragraph') {
+      lines.push(...await layoutParagraph(context, block, width));
+    } else if (block.kind === 'table') {
+      lines.push(...await layoutTable(context, block, width));
+    } else {
+      lines.push({ height: 0, pageBreak: true });
+    }
+  }
+  return lines;
+}
+
+// Render a .docx file as a PDF
+export async function renderDocx(wordFilePath: string): Promise<Uint8Array> {
+  const result = await mammoth.convertToHtml({ path: wordFilePath }, { styleMap: STYLE_MAP });
+  for (const message of result.messages) {
+    console.warn(`⚠️ Word conversion: ${message.message}`);
+  }
+
+  const pdfDoc = await PDFDocument.create();
+  const [pageWidth, pageHeight] = PAGE_SIZE;
+  const top = pageHeight - MARGIN;
+  const context: LayoutContext = {
+    pdfDoc,
+    fonts: createFontSet(pdfDoc),
+    images: new Map(),
+    contentHeight: pageHeight - 2 * MARGIN,
+  };
+
+  const blocks = collectBlocks(parseHtml(result.value).children, 0, {});
+  const lines = await layoutBlocks(context, blocks, pageWidth - 2 * MARGIN);
+
+  let page = pdfDoc.addPage(PAGE_SIZE);
+  let y = top;
+  const newPage = () => {
+    page = pdfDoc.addPage(PAGE_SIZE);
+    y = top;
+  };
+
+  for (const line of lines) {
+    if (line.pageBreak) {
+      if (y < top) {
+        newPage();
+      }
+      continue;
+    }
+    if (line.spacer) {
+      // The next line starts the new page itself if it has to
+      y = y < top ? Math.max(y - line.height, MARGIN) : y;
+      continue;
+    }
+
+    let current = line;
+    while (current.height > y - MARGIN) {
+      // Keep lines and rows whole when they fit on an empty page
+      if (y < top && current.height <= context.contentHeight) {
+        newPage();
+        continue;
+      }
+      const parts = current.split?.(y - MARGIN);
+      if (!parts) {
+        if (y < top) {
+          newPage();
+          continue;
+        }
+        // Taller than a page and can't be split: it runs past the margin
+        break;
+      }
+      await parts[0].draw?.(page, MARGIN, y);
+      newPage();
+      current = parts[1];
+    }
+
+    await current.draw?.(page, MARGIN, y);
+    y -= current.height;
+  }
+
+  return pdfDoc.save();
+}
@@ -416,9 +416,13 @@ export async function sendDocumentBackEmail(
   senderName: string,
   documentTitle: string,
   note: string,
-  documentId: number
+  documentId: number,
+  signingToken?: string
 ) {
-  const loginUrl = `${FRONTEND_URL}/documents/${documentId}/sign`;
+  // External recipients get a fresh signing link instead of a login page
+  const loginUrl = signingToken
+    ? `${FRONTEND_URL}/sign?token=${signingToken}`
+    : `${FRONTEND_URL}/documents/${documentId}/sign`;
   
   const html = `
     <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
@@ -488,3 +492,315 @@ export async function sendDocumentBackEmail(
   }
 }
 
+
+export async function sendPasswordResetEmail(
+  recipientEmail: string,
+  recipientName: string,
+  resetToken: string,
+  expiresInMinutes: number
+) {
+  const resetUrl = `${FRONTEND_URL}/reset-password?token=${resetToken}`;
+  
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 20px; border-radius: 10px 10px 0 0; text-align: center;">
+        <h1 style="color: white; margin: 0;">EasySign</h1>
+      </div>
+      <div style="background: white; padding: 30px; border: 1px solid #e0e0e0; border-top: none; border-radius: 0 0 10px 10px;">
+        <h2 style="color: #333; margin-top: 0;">Reset Your Password</h2>
+        <p style="color: #666; font-size: 16px;">Hello ${recipientName},</p>
+        <p style="color: #666; font-size: 16px;">We received a request to reset the password for your EasySign account.</p>
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${resetUrl}" style="background-color: #4CAF50; color: white; padding: 15px 30px; text-decoration: none; border-radius: 5px; display: inline-block; font-size: 16px; font-weight: bold;">
+            Reset Password
+          </a>
+        </div>
+        <p style="color: #999; font-size: 14px; text-align: center; margin-top: 20px;">
+          Or copy and paste this link in your browser:<br>
+          <a href="${resetUrl}" style="color: #667eea; word-break: break-all;">${resetUrl}</a>
+        </p>
+        <p style="color: #666; font-size: 14px;">
+          This link expires in ${expiresInMinutes} minutes and can only be used once. If you did not request a password reset, you can ignore this email.
+        </p>
+        <hr style="border: none; border-top: 1px solid #e0e0e0; margin: 30px 0;">
+        <p style="color: #999; font-size: 12px; text-align: center; margin: 0;">
+          This is an automated message from EasySign. Please do not reply to this email.
+        </p>
+      </div>
+    </div>
+  `;
+
+  // Try SMTP first
+  let smtpSuccess = false;
+  try {
+    smtpSuccess = await sendViaSMTP(
+      recipientEmail,
+      'Reset your EasySign password',
+      html
+    );
+  } catch (error) {
+    console.error('SMTP failed, trying PowerAutomate...', error);
+  }
+
+  // Try PowerAutomate if SMTP failed
+  if (!smtpSuccess && POWERAUTOMATE_ENABLED) {
+    try {
+      const powerAutomateSuccess = await sendViaPowerAutomate(
+        recipientEmail,
+        'Reset your EasySign password',
+        html,
+        recipientName
+      );
+      if (powerAutomateSuccess) {
+        console.log('✅ Password reset email sent via PowerAutomate');
+        return;
+      }
+    } catch (error) {
+      console.error('PowerAutomate also failed:', error);
+    }
+  }
+
+  if (!smtpSuccess) {
+    console.error(`❌ Failed to send password reset email to ${recipientEmail}`);
+  }
+}
+
+export async function sendAccountLockedEmail(
+  recipientEmail: string,
+  recipientName: string,
+  unlockToken: string,
+  lockoutMinutes: number
+) {
+  const unlockUrl = `${FRONTEND_URL}/unlock-account?token=${unlockToken}`;
+  
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <div style="background: linear-gradient(135deg, #ff6b6b 0%, #ee5a6f 100%); padding: 20px; border-radius: 10px 10px 0 0; text-align: center;">
+        <h1 style="color: white; margin: 0;">EasySign</h1>
+      </div>
+      <div style="background: white; padding: 30px; border: 1px solid #e0e0e0; border-top: none; border-radius: 0 0 10px 10px;">
+        <h2 style="color: #333; margin-top: 0;">Your Account Has Been Locked</h2>
+        <p style="color: #666; font-size: 16px;">Hello ${recipientName},</p>
+        <p style="color: #666; font-size: 16px;">
+          We locked your EasySign account for ${lockoutMinutes} minutes after several failed sign-in attempts.
+        </p>
+        <p style="color: #666; font-size: 16px;">If this was you, you can unlock your account right away:</p>
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${unlockUrl}" style="background-color: #4CAF50; color: white; padding: 15px 30px; text-decoration: none; border-radius: 5px; display: inline-block; font-size: 16px; font-weight: bold;">
+            Unlock My Account
+          </a>
+        </div>
+        <p style="color: #999; font-size: 14px; text-align: center; margin-top: 20px;">
+          Or copy and paste this link in your browser:<br>
+          <a href="${unlockUrl}" style="color: #667eea; word-break: break-all;">${unlockUrl}</a>
+        </p>
+        <div style="background: #fff3cd; border-left: 4px solid #ffc107; padding: 15px; margin: 20px 0;">
+          <p style="margin: 0; color: #856404;">
+            If you did not try to sign in, someone may be guessing your password. Consider resetting it once your account is unlocked.
+          </p>
+        </div>
+        <hr style="border: none; border-top: 1px solid #e0e0e0; margin: 30px 0;">
+        <p style="color: #999; font-size: 12px; text-align: center; margin: 0;">
+          This is an automated message from EasySign. Please do not reply to this email.
+        </p>
+      </div>
+    </div>
+  `;
+
+  // Try SMTP first
+  let smtpSuccess = false;
+  try {
+    smtpSuccess = await sendViaSMTP(
+      recipientEmail,
+      'Your EasySign account has been locked',
+      html
+    );
+  } catch (error) {
+    console.error('SMTP failed, trying PowerAutomate...', error);
+  }
+
+  // Try PowerAutomate if SMTP failed
+  if (!smtpSuccess && POWERAUTOMATE_ENABLED) {
+    try {
+      const powerAutomateSuccess = await sendViaPowerAutomate(
+        recipientEmail,
+        'Your EasySign account has been locked',
+        html,
+        recipientName
+      );
+      if (powerAutomateSuccess) {
+        console.log('✅ Account locked email sent via PowerAutomate');
+        return;
+      }
+    } catch (error) {
+      console.error('PowerAutomate also failed:', error);
+    }
+  }
+
+  if (!smtpSuccess) {
+    console.error(`❌ Failed to send account locked email to ${recipientEmail}`);
+  }
+}
+
+export async function sendOrganizationInvitationEmail(
+  recipientEmail: string,
+  inviterName: string,
+  organizationName: string,
+  invitationToken: string,
+  expiresInDays: number
+) {
+  const inviteUrl = `${FRONTEND_URL}/join?token=${invitationToken}`;
+  
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 20px; border-radius: 10px 10px 0 0; text-align: center;">
+        <h1 style="color: white; margin: 0;">EasySign</h1>
+      </div>
+      <div style="background: white; padding: 30px; border: 1px solid #e0e0e0; border-top: none; border-radius: 0 0 10px 10px;">
+        <h2 style="color: #333; margin-top: 0;">You're Invited</h2>
+        <p style="color: #666; font-size: 16px;">Hello,</p>
+        <p style="color: #666; font-size: 16px;"><strong>${inviterName}</strong> has invited you to join their organization on EasySign:</p>
+        <div style="background: #f5f5f5; padding: 15px; border-radius: 5px; margin: 20px 0;">
+          <p style="margin: 0; font-size: 18px; font-weight: bold; color: #333;">${organizationName}</p>
+        </div>
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${inviteUrl}" style="background-color: #4CAF50; color: white; padding: 15px 30px; text-decoration: none; border-radius: 5px; display: inline-block; font-size: 16px; font-weight: bold;">
+            Accept Invitation
+          </a>
+        </div>
+        <p style="color: #999; font-size: 14px; text-align: center; margin-top: 20px;">
+          Or copy and paste this link in your browser:<br>
+          <a href="${inviteUrl}" style="color: #667eea; word-break: break-all;">${inviteUrl}</a>
+        </p>
+        <p style="color: #666; font-size: 14px;">This invitation expires in ${expiresInDays} days.</p>
+        <hr style="border: none; border-top: 1px solid #e0e0e0; margin: 30px 0;">
+        <p style="color: #999; font-size: 12px; text-align: center; margin: 0;">
+          This is an automated message from EasySign. Please do not reply to this email.
+        </p>
+      </div>
+    </div>
+  `;
+
+  // Try SMTP first
+  let smtpSuccess = false;
+  try {
+    smtpSuccess = await sendViaSMTP(
+      recipientEmail,
+      `Invitation to join ${organizationName} on EasySign`,
+      html
+    );
+  } catch (error) {
+    console.error('SMTP failed, trying PowerAutomate...', error);
+  }
+
+  // Try PowerAutomate if SMTP failed
+  if (!smtpSuccess && POWERAUTOMATE_ENABLED) {
+    try {
+      const powerAutomateSuccess = await sendViaPowerAutomate(
+        recipientEmail,
+        `Invitation to join ${organizationName} on EasySign`,
+        html,
+        recipientEmail.split('@')[0]
+      );
+      if (powerAutomateSuccess) {
+        console.log('✅ Invitation email sent via PowerAutomate');
+        return;
+      }
+    } catch (error) {
+      console.error('PowerAutomate also failed:', error);
+    }
+  }
+
+  if (!smtpSuccess) {
+    console.error(`❌ Failed to send invitation email to ${recipientEmail}`);
+  }
+}
+
+export async function sendSigningLinkEmail(
+  recipientEmail: string,
+  recipientName: string,
+  documentTitle: string,
+  signingToken: string,
+  expiresInHours: number,
+  password?: string
+) {
+  const signUrl = `${FRONTEND_URL}/sign?token=${signingToken}`;
+  
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 20px; border-radius: 10px 10px 0 0; text-align: center;">
+        <h1 style="color: white; margin: 0;">EasySign</h1>
+      </div>
+      <div style="background: white; padding: 30px; border: 1px solid #e0e0e0; border-top: none; border-radius: 0 0 10px 10px;">
+        <h2 style="color: #333; margin-top: 0;">Document Signing Request</h2>
+        <p style="color: #666; font-size: 16px;">Hello ${recipientName},</p>
+        <p style="color: #666; font-size: 16px;">You have been asked to sign a document:</p>
+        <div style="background: #f5f5f5; padding: 15px; border-radius: 5px; margin: 20px 0;">
+          <p style="margin: 0; font-size: 18px; font-weight: bold; color: #333;">${documentTitle}</p>
+        </div>
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${signUrl}" style="background-color: #4CAF50; color: white; padding: 15px 30px; text-decoration: none; border-radius: 5px; display: inline-block; font-size: 16px; font-weight: bold;">
+            Sign Document Now
+          </a>
+        </div>
+        <p style="color: #999; font-size: 14px; text-align: center; margin-top: 20px;">
+          Or copy and paste this link in your browser:<br>
+          <a href="${signUrl}" style="color: #667eea; word-break: break-all;">${signUrl}</a>
+        </p>
+        <p style="color: #666; font-size: 14px;">
+          No account is needed. This link is personal to you, expires in ${expiresInHours} hours and can only be opened once.
+        </p>
+        ${password ? `
+          <div style="background: #fff3cd; border: 2px solid #ffc107; padding: 15px; border-radius: 5px; margin: 20px 0;">
+            <p style="margin: 0 0 10px 0; color: #856404; font-weight: bold;">An EasySign account was also created for you:</p>
+            <p style="margin: 5px 0; color: #333;">
+              <strong>Email:</strong> ${recipientEmail}<br>
+              <strong>Password:</strong> <span style="font-size: 20px; letter-spacing: 2px; color: #d9534f;">${password}</span>
+            </p>
+            <p style="margin: 10px 0 0 0; color: #856404; font-size: 14px;">
+              You will be asked to change this password the first time you log in.
+            </p>
+          </div>
+        ` : ''}
+        <hr style="border: none; border-top: 1px solid #e0e0e0; margin: 30px 0;">
+        <p style="color: #999; font-size: 12px; text-align: center; margin: 0;">
+          This is an automated message from EasySign. Please do not reply to this email.
+        </p>
+      </div>
+    </div>
+  `;
+
+  // Try SMTP first
+  let smtpSuccess = false;
+  try {
+    smtpSuccess = await sendViaSMTP(
+      recipientEmail,
+      `Document Signing Request: ${documentTitle}`,
+      html
+    );
+  } catch (error) {
+    console.error('SMTP failed, trying PowerAutomate...', error);
+  }
+
+  // Try PowerAutomate if SMTP failed
+  if (!smtpSuccess && POWERAUTOMATE_ENABLED) {
+    try {
+      const powerAutomateSuccess = await sendViaPowerAutomate(
+        recipientEmail,
+        `Document Signing Request: ${documentTitle}`,
+        html,
+        recipientName
+      );
+      if (powerAutomateSuccess) {
+        console.log('✅ Signing link email sent via PowerAutomate');
+        return;
+      }
+    } catch (error) {
+      console.error('PowerAutomate also failed:', error);
+    }
+  }
+
+  if (!smtpSuccess) {
+    console.error(`❌ Failed to send signing link email to ${recipientEmail}`);
+  }
+}
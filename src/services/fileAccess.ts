@@ -0,0 +1,187 @@
+import crypto from 'crypto';
+import path from 'path';
+import pool from '../db/connection';
+
+const FILE_URL_SECRET = process.env.FILE_URL_SECRET || process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-this-in-production';
+export const FILE_URL_EXPIRES_SECONDS = parseInt(process.env.FILE_URL_EXPIRES_SECONDS || '300');
+
+export const FILE_KINDS = ['original', 'signed', 'signature', 'version', 'source'];
+
+const WORD_CONTENT_TYPES: Record<string, string> = {
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+export interface StoredFile {
+  documentId: number;
+  filePath: string;
+  filename: string;
+  contentType: string;
+}
+
+export interface FileUrlParams {
+  kind: string;
+  resourceId: number;
+  userId: number;
+  expires: number;
+}
+
+// Stored paths are relative to the backend root, not process.cwd()
+export function resolveStoredPath(filePath: string): string {
+  return path.isAbsolute(filePath) ? filePath : path.resolve(__dirname, '..', '..', filePath);
+}
+
+// A document is accessible to its owner and to its assigned recipients, in
+// any role (the same rule GET /documents/:id/download has always applied)
+export async function findAccessibleDocument(documentId: number, userId: number, orgId: number | null | undefined) {
+  const result = await pool.query(
+    `SELECT d.* FROM documents d
+     WHERE d.id = $1 AND ($3::int IS NULL OR d.org_id = $3)
+       AND (
+         d.uploaded_by = $2
+         OR EXISTS (SELECT 1 FROM document_recipients dr WHERE dr.document_id = d.id AND dr.recipient_id = $2)
+       )`,
+    [documentId, userId, orgId ?? null]
+  );
+  return result.rows[0] || null;
+}
+
+// Placed signatures follow the document rule, except drafts, which only
+// their signer can see
+export async function findAccessibleSignature(
+  signatureId: number,
+  userId: number,
+  orgId: number | null | undefined,
+  documentId?: number
+) {
+  const result = await pool.query(
+    `SELECT s.* FROM signatures s
+     JOIN documents d ON s.document_id = d.id
+     WHERE s.id = $1 AND ($4::int IS NULL OR s.document_id = $4)
+       AND ($3::int IS NULL OR d.org_id = $3)
+       AND (s.is_draft = FALSE OR s.recipient_id = $2)
+       AND (
+         d.uploaded_by = $2
+         OR EXISTS (SELECT 1 FROM document_recipients dr WHERE dr.document_id = d.id AND dr.recipient_id = $2)
+       )`,
+    [signatureId, userId, orgId ?? null, documentId ?? null]
+  );
+  return result.rows[0] || null;
+}
+
+// The name a document's PDF is downloaded under: Word uploads keep their
+// name with a .pdf extension
+export function pdfFilename(document: { original_filename: string; file_type: string }): string {
+  return document.file_type === 'word'
+    ? document.original_filename.replace(/(\.[^.]*)?$/, '.pdf')
+    : document.original_filename;
+}
+
+// The uploaded Word file behind a converted document, or null for PDF uploads
+export function sourceFile(document: { id: number; original_filename: string; source_file_path?: string | null }): StoredFile | null {
+  if (!document.source_file_path) {
+    return null;
+  }
+  const ext = path.extname(document.source_file_path).toLowerCase();
+  return {
+    documentId: document.id,
+    filePath: document.source_file_path,
+    filename: document.original_filename,
+    contentType: WORD_CONTENT_TYPES[ext] || 'application/octet-stream',
+  };
+}
+
+// Look up the file behind a kind/id pair, or null if the user may not see it
+// (or it doesn't exist, e.g. a document that hasn't been signed yet)
+export async function findAccessibleFile(
+  kind: string,
+  resourceId: number,
+  userId: number,
+  orgId: number | null | undefined
+): Promise<StoredFile | null> {
+  if (kind === 'signature') {
+    const signature = await findAccessibleSignature(resourceId, userId, orgId);
+    if (!signature) {
+      return null;
+    }
+    const ext = path.extname(signature.signature_image_path).toLowerCase();
+    return {
+      documentId: signature.document_id,
+      filePath: signature.signature_image_path,
+      filename: `signature-${signature.id}${ext}`,
+      contentType: ext === '.png' ? 'image/png' : 'image/jpeg',
+    };
+  }
+
+  if (kind === 'version') {
+    const versionResult = await pool.query(
+      'SELECT * FROM document_versions WHERE id = $1 AND file_deleted_at IS NULL',
+      [resourceId]
+    );
+    const version = versionResult.rows[0];
+    const versionDocument = version && await findAccessibleDocument(version.document_id, userId, orgId);
+    if (!versionDocument) {
+      return null;
+    }
+    return {
+      documentId: version.document_id,
+      filePath: version.file_path,
+      filename: versionDocument.original_filename.replace(/(\.[^.]*)?$/, `-v${version.version_number}.pdf`),
+      contentType: 'application/pdf',
+    };
+  }
+
+  const document = await findAccessibleDocument(resourceId, userId, orgId);
+  if (!document) {
+    return null;
+  }
+
+  if (kind === 'source') {
+    return sourceFile(document);
+  }
+
+  const filePath = kind === 'signed' ? document.signed_file_path : document.original_file_path;
+  if (!filePath) {
+    return null;
+  }
+
+  // Word uploads are converted on upload, so both kinds are always PDFs
+  return {
+    documentId: document.id,
+    filePath,
+    filename: pdfFilename(document),
+    contentType: 'application/pdf',
+  };
+}
+
+function sign(params: FileUrlParams): string {
+  return crypto
+    .createHmac('sha256', FILE_URL_SECRET)
+    .update(`${params.kind}:${params.resourceId}:${params.userId}:${params.expires}`)
+    .digest('hex');
+}
+
+// Build a short-lived URL for a file. The URL works without an Authorization
+// header (so it can go straight into an <iframe> or <img>), but it is bound to
+// the user it was issued to and access is checked again when it's used.
+export function createFileUrl(kind: string, resourceId: number, userId: number): { url: string; expires_at: Date } {
+  const expires = Math.floor(Date.now() / 1000) + FILE_URL_EXPIRES_SECONDS;
+  const signature = sign({ kind, resourceId, userId, expires });
+  return {
+    url: `/api/files/${kind}/${resourceId}?user=${userId}&expires=${expires}&signature=${signature}`,
+    expires_at: new Date(expires * 1000),
+  };
+}
+
+export function verifyFileUrl(params: FileUrlParams, signature: string): boolean {
+  if (!FILE_KINDS.includes(params.kind) || !Number.isInteger(params.resourceId) || !Number.isInteger(params.userId)) {
+    return false;
+  }
+  if (!Number.isInteger(params.expires) || params.expires * 1000 < Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(params), 'hex');
+  const provided = Buffer.from(signature, 'hex');
+  return provided.length === expected.length && crypto.timingSafeEqual(provided, expected);
+}
@@ -0,0 +1,76 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import pool from '../db/connection';
+import { resolveStoredPath } from './fileAccess';
+
+export type FileHashKind = 'original' | 'converted' | 'signed';
+
+export interface HashMatch {
+  document_id: number;
+  title: string;
+  status: string;
+  kind: FileHashKind;
+  // The document version stored with this file, as listed by
+  // GET /documents/:id/versions (null for uploaded Word files)
+  version_id: number | null;
+  version_number: number | null;
+  is_current: boolean;
+  created_at: Date;
+  signers: { full_name: string; email: string; signed_at: Date }[];
+}
+
+export function sha256Buffer(data: Buffer | Uint8Array): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+export function sha256File(filePath: string): string {
+  return sha256Buffer(fs.readFileSync(resolveStoredPath(filePath)));
+}
+
+// Hash a stored file and record it against its document (once per file).
+// Signed outputs also record who had signed at that point, so later
+// re-signing doesn't change what a verification of this exact file reports.
+export async function recordFileHash(
+  documentId: number,
+  kind: FileHashKind,
+  filePath: string,
+  createdBy: number | null
+): Promise<string> {
+  const sha256 = sha256File(filePath);
+  await pool.query(
+    `INSERT INTO document_file_hashes (document_id, kind, file_path, sha256, signers, created_by)
+     SELECT $1, $2, $3, $4,
+            CASE WHEN $6 THEN COALESCE((
+              SELECT jsonb_agg(jsonb_build_object('full_name', u.full_name, 'email', u.email, 'signed_at', dr.signed_at)
+                              ORDER BY dr.signed_at)
+              FROM document_recipients dr
+              JOIN users u ON dr.recipient_id = u.id
+              WHERE dr.document_id = $1 AND dr.status = 'signed'
+            ), '[]'::jsonb) ELSE '[]'::jsonb END,
+            $5
+     WHERE NOT EXISTS (SELECT 1 FROM document_file_hashes WHERE document_id = $1 AND file_path = $3)`,
+    [documentId, kind, filePath, sha256, createdBy, kind === 'signed']
+  );
+  return sha256;
+}
+
+// Every stored version in the organization whose hash matches
+export async function findFileHashMatches(sha256: string, orgId: number | null | undefined): Promise<HashMatch[]> {
+  const result = await pool.query(
+    `SELECT h.document_id, d.title, d.status, h.kind, h.created_at, h.signers,
+            v.id AS version_id, v.version_number,
+            (h.file_path = COALESCE(d.signed_file_path, d.original_file_path)) AS is_current
+     FROM document_file_hashes h
+     JOIN documents d ON h.document_id = d.id
+     LEFT JOIN LATERAL (
+       SELECT dv.id, dv.version_number FROM document_versions dv
+       WHERE dv.document_id = h.document_id AND dv.file_path = h.file_path
+       ORDER BY dv.version_number
+       LIMIT 1
+     ) v ON TRUE
+     WHERE h.sha256 = $1 AND ($2::int IS NULL OR d.org_id = $2)
+     ORDER BY h.created_at DESC`,
+    [sha256, orgId ?? null]
+  );
+  return result.rows;
+}
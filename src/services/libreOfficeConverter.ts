@@ -0,0 +1,53 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { execFile } from 'child_process';
+import { pathToFileURL } from 'url';
+import { promisify } from 'util';
+
+// Converts Word files with a headless LibreOffice (soffice), which lays them
+// out like an office suite would: page setup, fonts, headers and footers,
+// floating images. It runs fully offline.
+
+const execFileAsync = promisify(execFile);
+
+const LIBREOFFICE_PATH = process.env.LIBREOFFICE_PATH || 'soffice';
+const LIBREOFFICE_TIMEOUT_MS = parseInt(process.env.LIBREOFFICE_TIMEOUT_MS || '120000');
+
+let available: Promise<boolean> | null = null;
+
+// Whether soffice can be run; checked once per process
+export function isLibreOfficeAvailable(): Promise<boolean> {
+  if (!available) {
+    available = execFileAsync(LIBREOFFICE_PATH, ['--version'], { timeout: 30000 })
+      .then(() => true)
+      .catch(() => false);
+  }
+  return available;
+}
+
+export async function convertWithLibreOffice(wordFilePath: string): Promise<Buffer> {
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'word-convert-'));
+  try {
+    // A profile of its own, so conversions don't clash with each other or
+    // with a desktop LibreOffice that is already running
+    const profileDir = path.join(workDir, 'profile');
+    await execFileAsync(LIBREOFFICE_PATH, [
+      '--headless',
+      '--norestore',
+      '--nolockcheck',
+      `-env:UserInstallation=${pathToFileURL(profileDir).href}`,
+      '--convert-to', 'pdf',
+      '--outdir', workDir,
+      path.resolve(wordFilePath),
+    ], { timeout: LIBREOFFICE_TIMEOUT_MS });
+
+    const outputPath = path.join(workDir, `${path.parse(wordFilePath).name}.pdf`);
+    if (!fs.existsSync(outputPath)) {
+      throw new Error('LibreOffice did not produce a PDF');
+    }
+    return fs.readFileSync(outputPath);
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
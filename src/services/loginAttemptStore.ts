@@ -0,0 +1,107 @@
+import pool from '../db/connection';
+
+export interface LoginAttemptState {
+  failures: number;
+  lockedUntil: Date | null;
+}
+
+// Storage for failed-login counters. Keys are opaque strings such as
+// 'account:jane@example.com' or 'ip:10.0.0.1'.
+export interface LoginAttemptStore {
+  get(key: string): Promise<LoginAttemptState | null>;
+  // Count a failure inside the rolling window and lock the key once
+  // `maxFailures` is reached. Returns the state after the update.
+  recordFailure(key: string, maxFailures: number, windowMs: number, lockMs: number): Promise<LoginAttemptState>;
+  reset(key: string): Promise<void>;
+}
+
+export class PostgresLoginAttemptStore implements LoginAttemptStore {
+  async get(key: string): Promise<LoginAttemptState | null> {
+    const result = await pool.query(
+      'SELECT failures, locked_until FROM login_attempts WHERE key = $1',
+      [key]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return {
+      failures: result.rows[0].failures,
+      lockedUntil: result.rows[0].locked_until,
+    };
+  }
+
+  async recordFailure(key: string, maxFailures: number, windowMs: number, lockMs: number): Promise<LoginAttemptState> {
+    const windowStart = new Date(Date.now() - windowMs);
+    const lockedUntil = new Date(Date.now() + lockMs);
+
+    const result = await pool.query(
+      `INSERT INTO login_attempts (key, failures, window_started_at, updated_at)
+       VALUES ($1, 1, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+       ON CONFLICT (key) DO UPDATE SET
+         failures = CASE WHEN login_attempts.window_started_at < $2 THEN 1 ELSE login_attempts.failures + 1 END,
+         window_started_at = CASE WHEN login_attempts.window_started_at < $2 THEN CURRENT_TIMESTAMP ELSE login_attempts.window_started_at END,
+         updated_at = CURRENT_TIMESTAMP
+       RETURNING failures, locked_until`,
+      [key, windowStart]
+    );
+
+    const state: LoginAttemptState = {
+      failures: result.rows[0].failures,
+      lockedUntil: result.rows[0].locked_until,
+    };
+
+    if (state.failures >= maxFailures) {
+      // Counting starts over once the lockout has been served
+      await pool.query(
+        `UPDATE login_attempts SET failures = 0, window_started_at = CURRENT_TIMESTAMP, locked_until = $2
+         WHERE key = $1`,
+        [key, lockedUntil]
+      );
+      state.lockedUntil = lockedUntil;
+    }
+
+    return state;
+  }
+
+  async reset(key: string): Promise<void> {
+    await pool.query('DELETE FROM login_attempts WHERE key = $1', [key]);
+  }
+}
+
+// Process-local store, useful for tests or single-instance deployments without a database round trip
+export class MemoryLoginAttemptStore implements LoginAttemptStore {
+  private entries = new Map<string, LoginAttemptState & { windowStartedAt: number }>();
+
+  async get(key: string): Promise<LoginAttemptState | null> {
+    const entry = this.entries.get(key);
+    return entry ? { failures: entry.failures, lockedUntil: entry.lockedUntil } : null;
+  }
+
+  async recordFailure(key: string, maxFailures: number, windowMs: number, lockMs: number): Promise<LoginAttemptState> {
+    const now = Date.now();
+    let entry = this.entries.get(key);
+
+    if (!entry || entry.windowStartedAt < now - windowMs) {
+      entry = { failures: 0, lockedUntil: entry?.lockedUntil || null, windowStartedAt: now };
+      this.entries.set(key, entry);
+    }
+
+    entry.failures++;
+    const state: LoginAttemptState = { failures: entry.failures, lockedUntil: entry.lockedUntil };
+
+    if (entry.failures >= maxFailures) {
+      entry.failures = 0;
+      entry.windowStartedAt = now;
+      entry.lockedUntil = new Date(now + lockMs);
+      state.lockedUntil = entry.lockedUntil;
+    }
+
+    return state;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
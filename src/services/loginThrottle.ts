@@ -0,0 +1,134 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import pool from '../db/connection';
+import { hashToken } from '../utils/jwt';
+import { writeAuditLog } from '../middleware/audit';
+import { sendAccountLockedEmail } from './email';
+import { LoginAttemptStore, PostgresLoginAttemptStore } from './loginAttemptStore';
+
+export const loginThrottleConfig = {
+  maxAccountFailures: parseInt(process.env.LOGIN_MAX_FAILURES || '5'),
+  maxIpFailures: parseInt(process.env.LOGIN_IP_MAX_FAILURES || '20'),
+  failureWindowMs: parseInt(process.env.LOGIN_FAILURE_WINDOW_MINUTES || '15') * 60 * 1000,
+  lockoutMs: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15') * 60 * 1000,
+  delayBaseMs: parseInt(process.env.LOGIN_DELAY_BASE_MS || '250'),
+  delayMaxMs: parseInt(process.env.LOGIN_DELAY_MAX_MS || '5000'),
+  unlockTokenExpiresMinutes: parseInt(process.env.UNLOCK_TOKEN_EXPIRES_MINUTES || '60'),
+};
+
+let store: LoginAttemptStore = new PostgresLoginAttemptStore();
+
+export function setLoginAttemptStore(customStore: LoginAttemptStore) {
+  store = customStore;
+}
+
+function accountKey(email: string): string {
+  return `account:${email.toLowerCase().trim()}`;
+}
+
+function ipKey(req: Request): string {
+  return `ip:${req.ip || req.socket.remoteAddress || 'unknown'}`;
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Seconds until the account or the caller's IP may try again, or 0 if not locked
+export async function getLockoutSeconds(email: string, req: Request): Promise<number> {
+  const states = await Promise.all([store.get(accountKey(email)), store.get(ipKey(req))]);
+  const now = Date.now();
+
+  let remainingMs = 0;
+  for (const state of states) {
+    if (state?.lockedUntil) {
+      remainingMs = Math.max(remainingMs, new Date(state.lockedUntil).getTime() - now);
+    }
+  }
+
+  return remainingMs > 0 ? Math.ceil(remainingMs / 1000) : 0;
+}
+
+// Count a failed attempt against the account and the IP. Resolves after a
+// progressive delay, so callers should await it before answering.
+export async function recordLoginFailure(email: string, req: Request): Promise<void> {
+  const config = loginThrottleConfig;
+  const [accountState, ipState] = await Promise.all([
+    store.recordFailure(accountKey(email), config.maxAccountFailures, config.failureWindowMs, config.lockoutMs),
+    store.recordFailure(ipKey(req), config.maxIpFailures, config.failureWindowMs, config.lockoutMs),
+  ]);
+
+  // Reaching the limit means this attempt is the one that triggered the lock
+  if (accountState.failures >= config.maxAccountFailures) {
+    await handleAccountLockout(email, req);
+  }
+  if (ipState.failures >= config.maxIpFailures) {
+    await writeAuditLog(req, {
+      action: 'ip_locked',
+      details: { ip: req.ip || req.socket.remoteAddress, locked_until: ipState.lockedUntil },
+    });
+  }
+
+  const failures = Math.max(accountState.failures, 1);
+  const delay = Math.min(config.delayBaseMs * 2 ** (failures - 1), config.delayMaxMs);
+  await sleep(delay);
+}
+
+export async function recordLoginSuccess(email: string): Promise<void> {
+  await store.reset(accountKey(email));
+}
+
+async function handleAccountLockout(email: string, req: Request) {
+  const userResult = await pool.query(
+    'SELECT id, email, full_name FROM users WHERE email = $1',
+    [email.toLowerCase().trim()]
+  );
+  const user = userResult.rows[0];
+
+  await writeAuditLog(req, {
+    userId: user?.id,
+    action: 'account_locked',
+    details: {
+      email: email.toLowerCase().trim(),
+      lockout_minutes: loginThrottleConfig.lockoutMs / 60000,
+    },
+  });
+
+  // Unknown emails are tracked too (so lockouts don't reveal which accounts exist), but there's no one to notify
+  if (!user) {
+    return;
+  }
+
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + loginThrottleConfig.unlockTokenExpiresMinutes * 60 * 1000);
+  await pool.query(
+    `INSERT INTO account_unlock_tokens (user_id, token_hash, expires_at)
+     VALUES ($1, $2, $3)`,
+    [user.id, hashToken(token), expiresAt]
+  );
+
+  sendAccountLockedEmail(user.email, user.full_name, token, loginThrottleConfig.lockoutMs / 60000)
+    .catch(error => console.error('Account locked email error:', error));
+}
+
+// Clear an account lockout using the token from the lockout email
+export async function unlockAccount(token: string, req: Request): Promise<boolean> {
+  const result = await pool.query(
+    `UPDATE account_unlock_tokens t
+     SET used_at = CURRENT_TIMESTAMP
+     FROM users u
+     WHERE t.user_id = u.id AND t.token_hash = $1 AND t.used_at IS NULL AND t.expires_at > CURRENT_TIMESTAMP
+     RETURNING u.id, u.email`,
+    [hashToken(token)]
+  );
+
+  if (result.rows.length === 0) {
+    return false;
+  }
+
+  const user = result.rows[0];
+  await store.reset(accountKey(user.email));
+  await writeAuditLog(req, { userId: user.id, action: 'account_unlocked', details: { via: 'email_link' } });
+
+  return true;
+}
@@ -0,0 +1,331 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import jwt from 'jsonwebtoken';
+import pool from '../db/connection';
+import { hashToken } from '../utils/jwt';
+import { encryptSecret, decryptSecret } from '../utils/encryption';
+
+export const OIDC_REDIRECT_URI =
+  process.env.OIDC_REDIRECT_URI || `http://localhost:${process.env.PORT || 3001}/api/auth/oidc/callback`;
+const LOGIN_STATE_EXPIRES_MINUTES = 10;
+const DISCOVERY_CACHE_MS = 60 * 60 * 1000;
+
+export interface OidcProvider {
+  id: number;
+  org_id: number;
+  issuer: string;
+  client_id: string;
+  client_secret: string | null; // encrypted
+  scopes: string;
+  groups_claim: string;
+  management_groups: string[];
+  enabled: boolean;
+}
+
+interface Discovery {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface OidcClaims {
+  sub: string;
+  email: string;
+  name?: string;
+  groups: string[];
+}
+
+// Login failures that are safe to show to the user
+export class OidcLoginError extends Error {}
+
+const discoveryCache = new Map<string, { discovery: Discovery; fetchedAt: number }>();
+const jwksCache = new Map<string, Map<string, crypto.KeyObject>>();
+
+function base64url(buffer: Buffer): string {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export async function getDiscovery(issuer: string): Promise<Discovery> {
+  const cached = discoveryCache.get(issuer);
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_CACHE_MS) {
+    return cached.discovery;
+  }
+
+  const url = `${issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`;
+  const { data } = await axios.get(url, { timeout: 10000 });
+
+  if (!data.authorization_endpoint || !data.token_endpoint || !data.jwks_uri) {
+    throw new OidcLoginError('Identity provider discovery document is incomplete');
+  }
+
+  discoveryCache.set(issuer, { discovery: data, fetchedAt: Date.now() });
+  return data;
+}
+
+// Find the signing key for a token, refetching the key set once when the
+// key id is unknown (the IdP may have rotated its keys)
+async function getSigningKey(jwksUri: string, kid: string | undefined): Promise<crypto.KeyObject> {
+  for (let attempt = 0; attempt < 2; attempt++) {
+    let keys = jwksCache.get(jwksUri);
+    if (!keys || attempt > 0) {
+      const { data } = await axios.get(jwksUri, { timeout: 10000 });
+      keys = new Map();
+      for (const jwk of data.keys || []) {
+        if (jwk.kty === 'RSA' && (!jwk.use || jwk.use === 'sig')) {
+          keys.set(jwk.kid || '', crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+        }
+      }
+      jwksCache.set(jwksUri, keys);
+    }
+
+    const key = kid ? keys.get(kid) : keys.values().next().value;
+    if (key) {
+      return key;
+    }
+  }
+
+  throw new OidcLoginError('Identity provider signing key not found');
+}
+
+export async function findProviderByOrgSlug(slug: string): Promise<OidcProvider | null> {
+  const result = await pool.query(
+    `SELECT p.* FROM oidc_providers p
+     JOIN organizations o ON p.org_id = o.id
+     WHERE o.slug = $1 AND p.enabled = TRUE`,
+    [slug]
+  );
+  return result.rows[0] || null;
+}
+
+export async function saveProvider(
+  orgId: number,
+  settings: {
+    issuer: string;
+    client_id: string;
+    client_secret?: string;
+    scopes?: string;
+    groups_claim?: string;
+    management_groups?: string[];
+    enabled?: boolean;
+  }
+): Promise<OidcProvider> {
+  // Omitting client_secret keeps the stored one
+  const result = await pool.query(
+    `INSERT INTO oidc_providers (org_id, issuer, client_id, client_secret, scopes, groups_claim, management_groups, enabled)
+     VALUES ($1, $2, $3, $4, COALESCE($5, 'openid email profile'), COALESCE($6, 'groups'), COALESCE($7, '{}'), COALESCE($8, TRUE))
+     ON CONFLICT (org_id) DO UPDATE SET
+       issuer = EXCLUDED.issuer,
+       client_id = EXCLUDED.client_id,
+       client_secret = COALESCE($4, oidc_providers.client_secret),
+       scopes = COALESCE($5, oidc_providers.scopes),
+       groups_claim = COALESCE($6, oidc_providers.groups_claim),
+       management_groups = COALESCE($7, oidc_providers.management_groups),
+       enabled = COALESCE($8, oidc_providers.enabled),
+       updated_at = CURRENT_TIMESTAMP
+     RETURNING *`,
+    [
+      orgId,
+      settings.issuer.replace(/\/+$/, ''),
+      settings.client_id,
+      settings.client_secret ? encryptSecret(settings.client_secret) : null,
+      settings.scopes ?? null,
+      settings.groups_claim ?? null,
+      settings.management_groups ?? null,
+      settings.enabled ?? null,
+    ]
+  );
+  return result.rows[0];
+}
+
+// Start an authorization-code login with PKCE; returns the IdP URL to redirect to.
+// With linkUserId the login links the IdP identity to that (signed-in) user.
+export async function beginLogin(provider: OidcProvider, linkUserId?: number): Promise<string> {
+  const discovery = await getDiscovery(provider.issuer);
+
+  const state = base64url(crypto.randomBytes(32));
+  const nonce = base64url(crypto.randomBytes(32));
+  const codeVerifier = base64url(crypto.randomBytes(32));
+  const codeChallenge = base64url(crypto.createHash('sha256').update(codeVerifier).digest());
+  const expiresAt = new Date(Date.now() + LOGIN_STATE_EXPIRES_MINUTES * 60 * 1000);
+
+  await pool.query(
+    `INSERT INTO oidc_login_states (provider_id, state_hash, nonce, code_verifier, expires_at, link_user_id)
+     VALUES ($1, $2, $3, $4, $5, $6)`,
+    [provider.id, hashToken(state), nonce, codeVerifier, expiresAt, linkUserId ?? null]
+  );
+
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: provider.client_id,
+    redirect_uri: OIDC_REDIRECT_URI,
+    scope: provider.scopes,
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+  });
+
+  return `${discovery.authorization_endpoint}?${params.toString()}`;
+}
+
+// Finish a login: redeem the code and verify the ID token it returns
+export async function completeLogin(
+  code: string,
+  state: string
+): Promise<{ provider: OidcProvider; claims: OidcClaims; linkUserId: number | null }> {
+  const stateResult = await pool.query(
+    `UPDATE oidc_login_states SET used_at = CURRENT_TIMESTAMP
+     WHERE state_hash = $1 AND used_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+     RETURNING provider_id, nonce, code_verifier, link_user_id`,
+    [hashToken(state)]
+  );
+
+  if (stateResult.rows.length === 0) {
+    throw new OidcLoginError('Sign-in request expired, please try again');
+  }
+
+  const loginState = stateResult.rows[0];
+  const providerResult = await pool.query(
+    'SELECT * FROM oidc_providers WHERE id = $1 AND enabled = TRUE',
+    [loginState.provider_id]
+  );
+  if (providerResult.rows.length === 0) {
+    throw new OidcLoginError('Single sign-on is not enabled for this organization');
+  }
+
+  const provider: OidcProvider = providerResult.rows[0];
+  const discovery = await getDiscovery(provider.issuer);
+
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: OIDC_REDIRECT_URI,
+    client_id: provider.client_id,
+    code_verifier: loginState.code_verifier,
+  });
+  if (provider.client_secret) {
+    body.set('client_secret', decryptSecret(provider.client_secret));
+  }
+
+  let idToken: string;
+  try {
+    const { data } = await axios.post(discovery.token_endpoint, body.toString(), {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      timeout: 10000,
+    });
+    idToken = data.id_token;
+  } catch (error: any) {
+    console.error('OIDC token exchange failed:', error.response?.data || error.message);
+    throw new OidcLoginError('The identity provider rejected the sign-in');
+  }
+
+  if (!idToken) {
+    throw new OidcLoginError('The identity provider did not return an ID token');
+  }
+
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new OidcLoginError('Invalid ID token');
+  }
+
+  const key = await getSigningKey(discovery.jwks_uri, decoded.header.kid);
+
+  let payload: jwt.JwtPayload;
+  try {
+    payload = jwt.verify(idToken, key, {
+      algorithms: ['RS256'],
+      issuer: discovery.issuer,
+      audience: provider.client_id,
+    }) as jwt.JwtPayload;
+  } catch (error) {
+    throw new OidcLoginError('Invalid ID token');
+  }
+
+  if (payload.nonce !== loginState.nonce) {
+    throw new OidcLoginError('Invalid ID token');
+  }
+
+  if (!payload.sub || !payload.email || payload.email_verified === false) {
+    throw new OidcLoginError('Your identity provider account has no verified email address');
+  }
+
+  const rawGroups = payload[provider.groups_claim];
+  const groups = Array.isArray(rawGroups) ? rawGroups.map(String) : rawGroups ? [String(rawGroups)] : [];
+
+  return {
+    provider,
+    linkUserId: loginState.link_user_id,
+    claims: {
+      sub: String(payload.sub),
+      email: String(payload.email).toLowerCase().trim(),
+      name: payload.name,
+      groups,
+    },
+  };
+}
+
+export function roleForGroups(provider: OidcProvider, groups: string[]): 'management' | 'recipient' {
+  return groups.some(group => provider.management_groups.includes(group)) ? 'management' : 'recipient';
+}
+
+// Just-in-time provisioning: find the user for these claims, creating or
+// updating them so the role follows the IdP groups. An email only matches
+// accounts the provider's organization already owns: anyone else with that
+// email (a guest signer or another organization's user) has to sign in with
+// their password and link the identity explicitly (linkUserId).
+export async function provisionUser(provider: OidcProvider, claims: OidcClaims, linkUserId?: number | null) {
+  let result = await pool.query(
+    'SELECT * FROM users WHERE oidc_issuer = $1 AND oidc_subject = $2',
+    [provider.issuer, claims.sub]
+  );
+  if (linkUserId) {
+    if (result.rows.length > 0 && result.rows[0].id !== linkUserId) {
+      throw new OidcLoginError('This identity is already linked to another account');
+    }
+    result = await pool.query('SELECT * FROM users WHERE id = $1', [linkUserId]);
+    if (result.rows.length === 0 || result.rows[0].email !== claims.email) {
+      throw new OidcLoginError('The identity provider account has a different email address than yours');
+    }
+  } else if (result.rows.length === 0) {
+    const byEmail = await pool.query('SELECT * FROM users WHERE email = $1', [claims.email]);
+    const existing = byEmail.rows[0];
+    if (existing && (existing.org_id !== provider.org_id || existing.oidc_subject)) {
+      throw new OidcLoginError(
+        'An account with this email already exists. Sign in with your password and link single sign-on to it.'
+      );
+    }
+    result = byEmail;
+  }
+
+  const mappedRole = roleForGroups(provider, claims.groups);
+  const fullName = claims.name?.trim() || claims.email.split('@')[0];
+
+  if (result.rows.length === 0) {
+    const created = await pool.query(
+      `INSERT INTO users (email, password_hash, full_name, role, is_external, org_id, oidc_issuer, oidc_subject)
+       VALUES ($1, NULL, $2, $3, FALSE, $4, $5, $6)
+       RETURNING *`,
+      [claims.email, fullName, mappedRole, provider.org_id, provider.issuer, claims.sub]
+    );
+    return created.rows[0];
+  }
+
+  const user = result.rows[0];
+  if (user.org_id !== null && user.org_id !== provider.org_id) {
+    throw new OidcLoginError('This account belongs to a different organization');
+  }
+
+  // Admin is granted inside the app, so the IdP never demotes an admin
+  const role = user.role === 'admin' ? 'admin' : mappedRole;
+
+  const updated = await pool.query(
+    `UPDATE users
+     SET org_id = $1, role = $2, full_name = $3, is_external = FALSE, oidc_issuer = $4, oidc_subject = $5,
+         updated_at = CURRENT_TIMESTAMP
+     WHERE id = $6
+     RETURNING *`,
+    [provider.org_id, role, fullName, provider.issuer, claims.sub, user.id]
+  );
+  return updated.rows[0];
+}
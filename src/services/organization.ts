@@ -0,0 +1,75 @@
+import crypto from 'crypto';
+import { PoolClient } from 'pg';
+import pool from '../db/connection';
+import { hashToken } from '../utils/jwt';
+
+export const INVITATION_EXPIRES_DAYS = parseInt(process.env.INVITATION_EXPIRES_DAYS || '7');
+
+function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, 80) || 'org';
+}
+
+// Create an organization with a unique slug derived from its name
+export async function createOrganization(client: PoolClient, name: string) {
+  const baseSlug = slugify(name);
+  let slug = baseSlug;
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const existing = await client.query('SELECT id FROM organizations WHERE slug = $1', [slug]);
+    if (existing.rows.length === 0) {
+      break;
+    }
+    slug = `${baseSlug}-${crypto.randomBytes(3).toString('hex')}`;
+  }
+
+  const result = await client.query(
+    `INSERT INTO organizations (name, slug)
+     VALUES ($1, $2)
+     RETURNING *`,
+    [name.trim(), slug]
+  );
+
+  return result.rows[0];
+}
+
+export async function createInvitation(orgId: number, email: string, role: string, invitedBy: number) {
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + INVITATION_EXPIRES_DAYS * 24 * 60 * 60 * 1000);
+
+  // A new invitation replaces any outstanding one for the same address
+  await pool.query(
+    `UPDATE organization_invitations SET revoked_at = CURRENT_TIMESTAMP
+     WHERE org_id = $1 AND email = $2 AND accepted_at IS NULL AND revoked_at IS NULL`,
+    [orgId, email]
+  );
+
+  const result = await pool.query(
+    `INSERT INTO organization_invitations (org_id, email, role, token_hash, invited_by, expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING id, org_id, email, role, invited_by, expires_at, created_at`,
+    [orgId, email, role, hashToken(token), invitedBy, expiresAt]
+  );
+
+  return { invitation: result.rows[0], token };
+}
+
+// Look up a still-usable invitation by its token
+export async function findPendingInvitation(token: string) {
+  const result = await pool.query(
+    `SELECT i.id, i.org_id, i.email, i.role, i.expires_at, o.name as organization_name
+     FROM organization_invitations i
+     JOIN organizations o ON i.org_id = o.id
+     WHERE i.token_hash = $1
+       AND i.accepted_at IS NULL
+       AND i.revoked_at IS NULL
+       AND i.expires_at > CURRENT_TIMESTAMP`,
+    [hashToken(token)]
+  );
+
+  return result.rows[0] || null;
+}
@@ -0,0 +1,192 @@
+import { concatTransformationMatrix, PDFPage, popGraphicsState, pushGraphicsState } from 'pdf-lib';
+import { CoordinateMode } from '../types';
+
+// Coordinates from clients describe the page as a viewer shows it: the
+// CropBox, turned by /Rotate, with the origin at the top-left and y growing
+// downwards. This module maps those rectangles onto PDF user space, where the
+// origin is the bottom-left of the unrotated MediaBox and may not be (0, 0).
+
+export type PageRotation = 0 | 90 | 180 | 270;
+export const COORDINATE_MODES: CoordinateMode[] = ['points', 'normalized'];
+// Normalized values may overshoot the page edge by this much (rounding)
+const NORMALIZED_TOLERANCE = 0.001;
+
+export interface PageGeometry {
+  rotation: PageRotation;
+  // Visible area in PDF user space (unrotated)
+  cropBox: { x: number; y: number; width: number; height: number };
+  // Size of the page as displayed, in points
+  width: number;
+  height: number;
+}
+
+export interface ViewerRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A box in its own upright coordinate system: (0, 0) is the box's bottom-left
+// as the viewer sees it, x runs to the right and y upwards
+export interface BoxFrame {
+  origin: { x: number; y: number };
+  rotation: PageRotation;
+  width: number;
+  height: number;
+}
+
+export function getPageGeometry(page: PDFPage): PageGeometry {
+  const angle = ((page.getRotation().angle % 360) + 360) % 360;
+  // /Rotate must be a multiple of 90; anything else is treated as unrotated
+  const rotation = ([0, 90, 180, 270].includes(angle) ? angle : 0) as PageRotation;
+  const cropBox = page.getCropBox();
+  const turned = rotation === 90 || rotation === 270;
+  return {
+    rotation,
+    cropBox,
+    width: turned ? cropBox.height : cropBox.width,
+    height: turned ? cropBox.width : cropBox.height,
+  };
+}
+
+// Map a viewer point (top-left origin, y down) to PDF user space. /Rotate
+// turns the page clockwise for display, so this undoes that turn.
+export function viewerToPdf(geometry: PageGeometry, u: number, v: number): { x: number; y: number } {
+  const { x, y, width, height } = geometry.cropBox;
+  switch (geometry.rotation) {
+    case 90:
+      return { x: x + v, y: y + u };
+    case 180:
+      return { x: x + width - u, y: y + v };
+    case 270:
+      return { x: x + width - v, y: y + height - u };
+    default:
+      return { x: x + u, y: y + height - v };
+  }
+}
+
+// The inverse of viewerToPdf
+export function pdfToViewer(geometry: PageGeometry, x: number, y: number): { x: number; y: number } {
+  const crop = geometry.cropBox;
+  switch (geometry.rotation) {
+    case 90:
+      return { x: y - crop.y, y: x - crop.x };
+    case 180:
+      return { x: crop.x + crop.width - x, y: y - crop.y };
+    case 270:
+      return { x: crop.y + crop.height - y, y: crop.x + crop.width - x };
+    default:
+      return { x: x - crop.x, y: crop.y + crop.height - y };
+  }
+}
+
+// A rectangle in PDF user space (bottom-left corner and size) as the viewer
+// sees it
+export function pdfRectToViewer(geometry: PageGeometry, rect: ViewerRect): ViewerRect {
+  const a = pdfToViewer(geometry, rect.x, rect.y);
+  const b = pdfToViewer(geometry, rect.x + rect.width, rect.y + rect.height);
+  return {
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(b.x - a.x),
+    height: Math.abs(b.y - a.y),
+  };
+}
+
+export function boxFrame(geometry: PageGeometry, rect: ViewerRect): BoxFrame {
+  return {
+    origin: viewerToPdf(geometry, rect.x, rect.y + rect.height),
+    rotation: geometry.rotation,
+    width: rect.width,
+    height: rect.height,
+  };
+}
+
+// Run drawing code in a box's upright frame: anything drawn at (0, 0) to
+// (width, height) lands in the box and reads the right way up on screen
+export async function drawInFrame(page: PDFPage, frame: BoxFrame, draw: () => void | Promise<void>): Promise<void> {
+  const radians = (frame.rotation * Math.PI) / 180;
+  const cos = Math.round(Math.cos(radians));
+  const sin = Math.round(Math.sin(radians));
+  page.pushOperators(
+    pushGraphicsState(),
+    concatTransformationMatrix(cos, sin, -sin, cos, frame.origin.x, frame.origin.y)
+  );
+  try {
+    await draw();
+  } finally {
+    page.pushOperators(popGraphicsState());
+  }
+}
+
+// The coordinate mode a request asked for (points unless stated); null when
+// the value isn't one of COORDINATE_MODES
+export function parseCoordinateMode(value: unknown): CoordinateMode | null {
+  if (value === undefined || value === null || value === '') {
+    return 'points';
+  }
+  return COORDINATE_MODES.includes(value as CoordinateMode) ? (value as CoordinateMode) : null;
+}
+
+interface PlacedRect {
+  page_number: number;
+  x_coordinate: number;
+  y_coordinate: number;
+  width: number;
+  height: number;
+}
+
+// Convert rectangles given as fractions of the page (0 to 1) into points,
+// using each page's displayed size. Returns the problems found instead of
+// converting when a value is out of range.
+export function normalizedToPoints<T extends PlacedRect>(
+  items: T[],
+  pageSizes: { width: number; height: number }[],
+  label: string
+): { items: T[]; errors: string[] } {
+  const errors: string[] = [];
+  const converted = items.map((item, index) => {
+    const page = pageSizes[Number(item.page_number) - 1];
+    const x = Number(item.x_coordinate);
+    const y = Number(item.y_coordinate);
+    const width = Number(item.width);
+    const height = Number(item.height);
+    const inRange = [x, y, width, height].every(value => isFinite(value) && value >= 0 && value <= 1)
+      && x + width <= 1 + NORMALIZED_TOLERANCE
+      && y + height <= 1 + NORMALIZED_TOLERANCE;
+
+    if (!page) {
+      // Page problems are reported by the usual checks
+      return item;
+    }
+    if (!inRange) {
+      errors.push(`${label} ${index + 1}: normalized coordinates must be between 0 and 1 and stay on the page`);
+      return item;
+    }
+    return {
+      ...item,
+      x_coordinate: x * page.width,
+      y_coordinate: y * page.height,
+      width: width * page.width,
+      height: height * page.height,
+    };
+  });
+  return { items: errors.length > 0 ? [] : converted, errors };
+}
+
+export function pointsToNormalized<T extends PlacedRect>(items: T[], pageSizes: { width: number; height: number }[]): T[] {
+  return items.map(item => {
+    const page = pageSizes[Number(item.page_number) - 1];
+    if (!page) {
+      return item;
+    }
+    return {
+      ...item,
+      x_coordinate: Number(item.x_coordinate) / page.width,
+      y_coordinate: Number(item.y_coordinate) / page.height,
+      width: Number(item.width) / page.width,
+      height: Number(item.height) / page.height,
+    };
+  });
+}
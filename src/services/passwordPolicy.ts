@@ -0,0 +1,164 @@
+import { Pool, PoolClient } from 'pg';
+import pool from '../db/connection';
+import { hashPassword, comparePassword } from '../utils/password';
+import commonPasswords from '../data/commonPasswords.json';
+
+export const passwordPolicy = {
+  minLength: parseInt(process.env.PASSWORD_MIN_LENGTH || '10'),
+  // Of: lowercase, uppercase, digits, symbols
+  minCharacterClasses: parseInt(process.env.PASSWORD_MIN_CHARACTER_CLASSES || '3'),
+  rejectCommon: process.env.PASSWORD_REJECT_COMMON !== 'false',
+  historyCount: parseInt(process.env.PASSWORD_HISTORY_COUNT || '5'),
+  // 0 disables expiry
+  maxAgeDays: parseInt(process.env.PASSWORD_MAX_AGE_DAYS || '0'),
+};
+
+const COMMON_PASSWORDS = new Set<string>(commonPasswords);
+
+interface PasswordContext {
+  userId?: number;
+  email?: string;
+}
+
+function countCharacterClasses(password: string): number {
+  return [/[a-z]/, /[A-Z]/, /[0-9]/, /[^a-zA-Z0-9]/].filter(pattern => pattern.test(password)).length;
+}
+
+// "Summer2024!" is as guessable as "summer", so also check the word without
+// the digits and symbols people tend to append
+function isCommonPassword(password: string): boolean {
+  const lowered = password.toLowerCase();
+  const stem = lowered.replace(/[^a-z]+$/, '');
+  return COMMON_PASSWORDS.has(lowered) || (stem.length >= 4 && COMMON_PASSWORDS.has(stem));
+}
+
+// Human-readable list of the rules, for display next to password fields
+export function describePasswordPolicy(): string[] {
+  const rules = [`At least ${passwordPolicy.minLength} characters`];
+  if (passwordPolicy.minCharacterClasses > 1) {
+    rules.push(`At least ${passwordPolicy.minCharacterClasses} of: lowercase letters, uppercase letters, numbers, symbols`);
+  }
+  if (passwordPolicy.rejectCommon) {
+    rules.push('Not a commonly used password');
+  }
+  if (passwordPolicy.historyCount > 0) {
+    rules.push(`Not one of your last ${passwordPolicy.historyCount} passwords`);
+  }
+  return rules;
+}
+
+// Check a new password against the policy. Returns the rules it breaks (empty when it's acceptable).
+export async function validatePassword(password: unknown, context: PasswordContext = {}): Promise<string[]> {
+  if (typeof password !== 'string' || password.length === 0) {
+    return ['Password is required'];
+  }
+
+  const errors: string[] = [];
+
+  if (password.length < passwordPolicy.minLength) {
+    errors.push(`Password must be at least ${passwordPolicy.minLength} characters long`);
+  }
+
+  if (countCharacterClasses(password) < passwordPolicy.minCharacterClasses) {
+    errors.push(
+      `Password must contain at least ${passwordPolicy.minCharacterClasses} of: lowercase letters, uppercase letters, numbers, symbols`
+    );
+  }
+
+  if (passwordPolicy.rejectCommon) {
+    const emailName = context.email?.split('@')[0].toLowerCase();
+    if (isCommonPassword(password) || (emailName && emailName.length >= 4 && password.toLowerCase().includes(emailName))) {
+      errors.push('Password is too common or too easy to guess');
+    }
+  }
+
+  if (errors.length === 0 && context.userId && passwordPolicy.historyCount > 0) {
+    if (await isRecentlyUsed(context.userId, password)) {
+      errors.push(`Password must not match any of your last ${passwordPolicy.historyCount} passwords`);
+    }
+  }
+
+  return errors;
+}
+
+async function isRecentlyUsed(userId: number, password: string): Promise<boolean> {
+  const result = await pool.query(
+    `SELECT password_hash FROM (
+       SELECT password_hash, created_at FROM password_history WHERE user_id = $1
+       ORDER BY created_at DESC, id DESC
+       LIMIT $2
+     ) recent
+     UNION
+     SELECT password_hash FROM users WHERE id = $1 AND password_hash IS NOT NULL`,
+    [userId, passwordPolicy.historyCount]
+  );
+
+  for (const row of result.rows) {
+    if (await comparePassword(password, row.password_hash)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Remember a newly set password hash and forget ones beyond the history limit
+export async function recordPasswordHistory(db: Pool | PoolClient, userId: number, passwordHash: string): Promise<void> {
+  if (passwordPolicy.historyCount <= 0) {
+    return;
+  }
+
+  await db.query(
+    'INSERT INTO password_history (user_id, password_hash) VALUES ($1, $2)',
+    [userId, passwordHash]
+  );
+  await db.query(
+    `DELETE FROM password_history
+     WHERE user_id = $1 AND id NOT IN (
+       SELECT id FROM password_history WHERE user_id = $1
+       ORDER BY created_at DESC, id DESC
+       LIMIT $2
+     )`,
+    [userId, passwordPolicy.historyCount]
+  );
+}
+
+// Set a user's password after it passed validatePassword
+export async function setUserPassword(userId: number, password: string): Promise<void> {
+  const passwordHash = await hashPassword(password);
+  await pool.query(
+    `UPDATE users
+     SET password_hash = $1, must_change_password = FALSE, password_changed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+     WHERE id = $2`,
+    [passwordHash, userId]
+  );
+  await recordPasswordHistory(pool, userId, passwordHash);
+}
+
+// Flag the user for a password change once their password is older than the
+// configured maximum age. Returns whether a change is now required.
+export async function enforcePasswordMaxAge(user: {
+  id: number;
+  must_change_password: boolean;
+  password_changed_at?: Date | null;
+  created_at?: Date;
+}): Promise<boolean> {
+  if (user.must_change_password || passwordPolicy.maxAgeDays <= 0) {
+    return user.must_change_password;
+  }
+
+  const changedAt = user.password_changed_at || user.created_at;
+  if (!changedAt) {
+    return false;
+  }
+
+  const ageMs = Date.now() - new Date(changedAt).getTime();
+  if (ageMs < passwordPolicy.maxAgeDays * 24 * 60 * 60 * 1000) {
+    return false;
+  }
+
+  await pool.query(
+    'UPDATE users SET must_change_password = TRUE, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+    [user.id]
+  );
+  return true;
+}
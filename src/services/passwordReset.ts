@@ -0,0 +1,64 @@
+import crypto from 'crypto';
+import pool from '../db/connection';
+import { hashToken } from '../utils/jwt';
+
+export const RESET_TOKEN_EXPIRES_MINUTES = parseInt(process.env.RESET_TOKEN_EXPIRES_MINUTES || '30');
+const RESET_TOKENS_PER_HOUR = parseInt(process.env.RESET_TOKENS_PER_HOUR || '3');
+
+// Create a single-use reset token for a user. Returns null when the user has
+// already requested too many tokens in the last hour.
+export async function createPasswordResetToken(userId: number, ipAddress?: string): Promise<string | null> {
+  const recent = await pool.query(
+    `SELECT COUNT(*) as count FROM password_reset_tokens
+     WHERE user_id = $1 AND created_at > CURRENT_TIMESTAMP - INTERVAL '1 hour'`,
+    [userId]
+  );
+
+  if (parseInt(recent.rows[0].count) >= RESET_TOKENS_PER_HOUR) {
+    return null;
+  }
+
+  // Only the newest token is usable
+  await pool.query(
+    'UPDATE password_reset_tokens SET used_at = CURRENT_TIMESTAMP WHERE user_id = $1 AND used_at IS NULL',
+    [userId]
+  );
+
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + RESET_TOKEN_EXPIRES_MINUTES * 60 * 1000);
+
+  await pool.query(
+    `INSERT INTO password_reset_tokens (user_id, token_hash, expires_at, ip_address)
+     VALUES ($1, $2, $3, $4)`,
+    [userId, hashToken(token), expiresAt, ipAddress || null]
+  );
+
+  return token;
+}
+
+// Look up the user a still-valid reset token belongs to, without using it up
+export async function findPasswordResetUser(token: string): Promise<{ id: number; email: string } | null> {
+  const result = await pool.query(
+    `SELECT u.id, u.email
+     FROM password_reset_tokens t
+     JOIN users u ON t.user_id = u.id
+     WHERE t.token_hash = $1 AND t.used_at IS NULL AND t.expires_at > CURRENT_TIMESTAMP`,
+    [hashToken(token)]
+  );
+
+  return result.rows[0] || null;
+}
+
+// Mark a reset token as used and return its user, or null if the token is
+// unknown, expired or already used
+export async function consumePasswordResetToken(token: string): Promise<number | null> {
+  const result = await pool.query(
+    `UPDATE password_reset_tokens
+     SET used_at = CURRENT_TIMESTAMP
+     WHERE token_hash = $1 AND used_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+     RETURNING user_id`,
+    [hashToken(token)]
+  );
+
+  return result.rows.length > 0 ? result.rows[0].user_id : null;
+}
@@ -0,0 +1,258 @@
+import fs from 'fs';
+import path from 'path';
+import * as fontkit from '@pdf-lib/fontkit';
+import { PDFDocument, PDFFont, PDFPage, RGB, rgb } from 'pdf-lib';
+import { TextAlign } from '../types';
+
+// Unicode fonts for text drawn into PDFs. The DejaVu families ship with the
+// app (Latin, Greek, Cyrillic and more); fonts dropped into PDF_FONT_DIR
+// (e.g. Noto Sans CJK) become selectable by file name and also serve as
+// fallbacks for characters the chosen font doesn't have.
+
+const DEJAVU_DIR = path.join(path.dirname(require.resolve('dejavu-fonts-ttf/package.json')), 'ttf');
+const FONT_DIR = process.env.PDF_FONT_DIR || '';
+export const DEFAULT_FONT_FAMILY = process.env.PDF_DEFAULT_FONT || 'sans';
+export const TEXT_ALIGNMENTS: TextAlign[] = ['left', 'center', 'right'];
+
+// Auto-shrink never goes below this size
+const MIN_FONT_SIZE = 4;
+const FONT_SIZE_STEP = 0.5;
+const LINE_SPACING = 1.2;
+
+const BUNDLED_FONTS: Record<string, string> = {
+  sans: path.join(DEJAVU_DIR, 'DejaVuSans.ttf'),
+  'sans-bold': path.join(DEJAVU_DIR, 'DejaVuSans-Bold.ttf'),
+  'sans-italic': path.join(DEJAVU_DIR, 'DejaVuSans-Oblique.ttf'),
+  'sans-bold-italic': path.join(DEJAVU_DIR, 'DejaVuSans-BoldOblique.ttf'),
+  serif: path.join(DEJAVU_DIR, 'DejaVuSerif.ttf'),
+  'serif-bold': path.join(DEJAVU_DIR, 'DejaVuSerif-Bold.ttf'),
+  mono: path.join(DEJAVU_DIR, 'DejaVuSansMono.ttf'),
+};
+
+function loadFontFiles(): Record<string, string> {
+  const files = { ...BUNDLED_FONTS };
+  if (FONT_DIR) {
+    const dir = path.isAbsolute(FONT_DIR) ? FONT_DIR : path.resolve(__dirname, '..', '..', FONT_DIR);
+    for (const name of fs.existsSync(dir) ? fs.readdirSync(dir) : []) {
+      if (/\.(ttf|otf)$/i.test(name)) {
+        files[path.basename(name, path.extname(name)).toLowerCase()] = path.join(dir, name);
+      }
+    }
+  }
+  return files;
+}
+
+const FONT_FILES = loadFontFiles();
+
+// Parsed once per process; used for glyph coverage and metrics
+const faces = new Map<string, { bytes: Buffer; face: fontkit.Font }>();
+
+function getFace(family: string) {
+  let entry = faces.get(family);
+  if (!entry) {
+    const bytes = fs.readFileSync(FONT_FILES[family]);
+    entry = { bytes, face: fontkit.create(bytes) };
+    faces.set(family, entry);
+  }
+  return entry;
+}
+
+export function listFontFamilies(): string[] {
+  return Object.keys(FONT_FILES);
+}
+
+export function isFontFamily(family: unknown): family is string {
+  return typeof family === 'string' && Object.prototype.hasOwnProperty.call(FONT_FILES, family);
+}
+
+export function isTextAlign(align: unknown): align is TextAlign {
+  return typeof align === 'string' && (TEXT_ALIGNMENTS as string[]).includes(align);
+}
+
+// Characters in text that no available font has a glyph for; they would be
+// drawn as empty boxes. Whitespace and control characters are skipped.
+export function unsupportedCharacters(text: string): string[] {
+  const missing = new Set<string>();
+  for (const char of text) {
+    const codePoint = char.codePointAt(0)!;
+    if (/[\s\p{Cc}\p{Cf}]/u.test(char) || missing.has(char)) {
+      continue;
+    }
+    if (!listFontFamilies().some(family => getFace(family).face.hasGlyphForCodePoint(codePoint))) {
+      missing.add(char);
+    }
+  }
+  return [...missing];
+}
+
+interface TextRun {
+  text: string;
+  family: string;
+}
+
+export interface FontSet {
+  // Split text into runs, each drawn with the first font that has its glyphs:
+  // the requested family, then the default, then any other font
+  runs(text: string, family?: string | null): TextRun[];
+  widthOf(text: string, size: number, family?: string | null): number;
+  // Ascent of the requested family as a fraction of the font size
+  ascentOf(family?: string | null): number;
+  // The embedded font for a family; fonts are embedded (subset) on first use
+  embed(family: string): Promise<PDFFont>;
+}
+
+export function createFontSet(pdfDoc: PDFDocument): FontSet {
+  pdfDoc.registerFontkit(fontkit);
+  const embedded = new Map<string, Promise<PDFFont>>();
+
+  const familyOf = (family?: string | null) => (isFontFamily(family) ? family : DEFAULT_FONT_FAMILY);
+
+  const runs = (text: string, family?: string | null): TextRun[] => {
+    const preferred = familyOf(family);
+    const fallbacks = [preferred, DEFAULT_FONT_FAMILY, ...listFontFamilies()]
+      .filter((name, index, all) => all.indexOf(name) === index);
+
+    const result: TextRun[] = [];
+    for (const char of text) {
+      const codePoint = char.codePointAt(0)!;
+      const runFamily = fallbacks.find(name => getFace(name).face.hasGlyphForCodePoint(codePoint)) || preferred;
+      const last = result[result.length - 1];
+      if (last && last.family === runFamily) {
+        last.text += char;
+      } else {
+        result.push({ text: char, family: runFamily });
+      }
+    }
+    return result;
+  };
+
+  // Same measurement pdf-lib uses for custom fonts, without embedding them
+  const widthOf = (text: string, size: number, family?: string | null) =>
+    runs(text, family).reduce((width, run) => {
+      const { face } = getFace(run.family);
+      const advance = face.layout(run.text).glyphs.reduce((sum, glyph) => sum + glyph.advanceWidth, 0);
+      return width + (advance * size) / face.unitsPerEm;
+    }, 0);
+
+  return {
+    runs,
+    widthOf,
+    ascentOf: family => {
+      const { face } = getFace(familyOf(family));
+      return face.ascent / face.unitsPerEm;
+    },
+    embed: family => {
+      let font = embedded.get(family);
+      if (!font) {
+        font = pdfDoc.embedFont(getFace(family).bytes, { subset: true });
+        embedded.set(family, font);
+      }
+      return font;
+    },
+  };
+}
+
+// Break text into lines no wider than maxWidth: on spaces where possible,
+// inside words (or between CJK characters) where not. Newlines are kept.
+export function wrapText(fonts: FontSet, text: string, size: number, maxWidth: number, family?: string | null): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/ +/)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (fonts.widthOf(candidate, size, family) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) {
+        lines.push(line);
+      }
+
+      // Split a word that is wider than the line on its own
+      line = '';
+      for (const char of word) {
+        if (line && fonts.widthOf(line + char, size, family) > maxWidth) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+    lines.push(line);
+  }
+
+  return lines;
+}
+
+export interface TextBox {
+  // Bottom-left corner and size, in PDF user space
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TextStyle {
+  size: number;
+  family?: string | null;
+  align?: TextAlign | null;
+  color?: RGB;
+  // Shrink the text until it fits the box (down to MIN_FONT_SIZE)
+  shrinkToFit?: boolean;
+}
+
+// Lay out text inside a box: wrap to the box width, shrink the font size
+// until the lines fit the height, align each line horizontally and center the
+// block vertically. Lines that still don't fit at the minimum size are dropped.
+export function layoutText(fonts: FontSet, text: string, box: TextBox, style: TextStyle) {
+  let size = style.size;
+  let lines = wrapText(fonts, text, size, box.width, style.family);
+  while (style.shrinkToFit !== false && size > MIN_FONT_SIZE && lines.length * size * LINE_SPACING > box.height) {
+    size = Math.max(MIN_FONT_SIZE, size - FONT_SIZE_STEP);
+    lines = wrapText(fonts, text, size, box.width, style.family);
+  }
+
+  const lineHeight = size * LINE_SPACING;
+  const visible = Math.max(1, Math.min(lines.length, Math.floor(box.height / lineHeight)));
+  return { size, lineHeight, lines: lines.slice(0, visible) };
+}
+
+// Draw one line at a baseline, switching fonts where a fallback is needed
+export async function drawTextLine(
+  page: PDFPage,
+  fonts: FontSet,
+  text: string,
+  x: number,
+  y: number,
+  size: number,
+  family?: string | null,
+  color: RGB = rgb(0, 0, 0)
+): Promise<void> {
+  for (const run of fonts.runs(text, family)) {
+    const font = await fonts.embed(run.family);
+    page.drawText(run.text, { x, y, size, font, color });
+    x += font.widthOfTextAtSize(run.text, size);
+  }
+}
+
+export async function drawTextInBox(page: PDFPage, fonts: FontSet, text: string, box: TextBox, style: TextStyle): Promise<void> {
+  const { size, lineHeight, lines } = layoutText(fonts, text, box, style);
+  const blockHeight = lines.length * lineHeight;
+  const top = box.y + box.height - Math.max(0, (box.height - blockHeight) / 2);
+  const ascent = fonts.ascentOf(style.family) * size;
+  // Leading is split above and below each line
+  const firstBaseline = top - (lineHeight - size) / 2 - ascent;
+
+  for (const [index, line] of lines.entries()) {
+    const width = fonts.widthOf(line, size, style.family);
+    let x = box.x;
+    if (style.align === 'center') {
+      x += (box.width - width) / 2;
+    } else if (style.align === 'right') {
+      x += box.width - width;
+    }
+
+    await drawTextLine(page, fonts, line, x, firstBaseline - index * lineHeight, size, style.family, style.color);
+  }
+}
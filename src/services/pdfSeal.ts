@@ -0,0 +1,130 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { PDFArray, PDFDocument, PDFHexString, PDFName, PDFNumber, PDFString } from 'pdf-lib';
+import { addUnsignedAttributes, attribute, buildSignedData, fromDerBuffer, loadPkcs12, OIDS, SigningIdentity, toDerBuffer } from '../utils/cms';
+import { requestTimestamp } from './timestamp';
+
+const P12_PATH = process.env.PDF_SIGNING_P12_PATH || '';
+const P12_PASSWORD = process.env.PDF_SIGNING_P12_PASSWORD || '';
+const TSA_URL = process.env.PDF_SIGNING_TSA_URL || '';
+const SIGNING_REASON = process.env.PDF_SIGNING_REASON || 'Signed with EasySign';
+const SIGNING_LOCATION = process.env.PDF_SIGNING_LOCATION || '';
+
+// Bytes reserved for the CMS signature; certificate chain plus timestamp
+// token fit comfortably
+const SIGNATURE_LENGTH = 16384;
+// Written in place of the ByteRange numbers until the file is laid out
+const BYTE_RANGE_PLACEHOLDER = '**********';
+
+let identity: SigningIdentity | null = null;
+
+export function isSealingEnabled(): boolean {
+  return P12_PATH !== '';
+}
+
+function getIdentity(): SigningIdentity {
+  if (!identity) {
+    const p12Path = path.isAbsolute(P12_PATH) ? P12_PATH : path.resolve(__dirname, '..', '..', P12_PATH);
+    identity = loadPkcs12(fs.readFileSync(p12Path), P12_PASSWORD);
+  }
+  return identity;
+}
+
+// Add an empty signature field (invisible widget on the first page) whose
+// signature dictionary has room for the CMS signature
+async function addSignaturePlaceholder(pdfBytes: Uint8Array, signerName: string): Promise<Buffer> {
+  const pdfDoc = await PDFDocument.load(pdfBytes);
+  const context = pdfDoc.context;
+  const firstPage = pdfDoc.getPage(0);
+
+  const byteRange = PDFArray.withContext(context);
+  byteRange.push(PDFNumber.of(0));
+  byteRange.push(PDFName.of(BYTE_RANGE_PLACEHOLDER));
+  byteRange.push(PDFName.of(BYTE_RANGE_PLACEHOLDER));
+  byteRange.push(PDFName.of(BYTE_RANGE_PLACEHOLDER));
+
+  const signatureDict = context.obj({
+    Type: 'Sig',
+    Filter: 'Adobe.PPKLite',
+    SubFilter: 'ETSI.CAdES.detached',
+    ByteRange: byteRange,
+    Contents: PDFHexString.of('0'.repeat(SIGNATURE_LENGTH * 2)),
+    Reason: PDFString.of(SIGNING_REASON),
+    Name: PDFString.of(signerName),
+    M: PDFString.fromDate(new Date()),
+  });
+  if (SIGNING_LOCATION) {
+    signatureDict.set(PDFName.of('Location'), PDFString.of(SIGNING_LOCATION));
+  }
+  const signatureRef = context.register(signatureDict);
+
+  // Print + Locked, as Acrobat sets on signature widgets
+  const widgetRef = context.register(context.obj({
+    Type: 'Annot',
+    Subtype: 'Widget',
+    FT: 'Sig',
+    Rect: [0, 0, 0, 0],
+    V: signatureRef,
+    T: PDFString.of(`EasySign Seal ${Date.now()}`),
+    F: 132,
+    P: firstPage.ref,
+  }));
+  firstPage.node.addAnnot(widgetRef);
+
+  const acroForm = pdfDoc.catalog.getOrCreateAcroForm();
+  acroForm.addField(widgetRef);
+  // SignaturesExist + AppendOnly
+  acroForm.dict.set(PDFName.of('SigFlags'), PDFNumber.of(3));
+
+  // Object streams would hide the placeholders inside compressed streams
+  return Buffer.from(await pdfDoc.save({ useObjectStreams: false }));
+}
+
+// Seal a finished PDF with a PAdES-B signature from the organization
+// certificate (plus an RFC 3161 timestamp when a TSA is configured), so any
+// later change to the file shows up in PDF validators. The field is
+// invisible; the drawn signatures are the visible part.
+export async function sealPDF(pdfBytes: Uint8Array): Promise<Buffer> {
+  const signer = getIdentity();
+  const signerName = signer.certificate.subject.getField('CN')?.value || 'EasySign';
+  const pdf = await addSignaturePlaceholder(pdfBytes, signerName);
+
+  // Locate the Contents placeholder; the signature covers everything else
+  const placeholder = Buffer.from(`<${'0'.repeat(SIGNATURE_LENGTH * 2)}>`);
+  const contentsStart = pdf.indexOf(placeholder);
+  if (contentsStart === -1) {
+    throw new Error('Signature placeholder not found in PDF');
+  }
+  const contentsEnd = contentsStart + placeholder.length;
+  const byteRange = [0, contentsStart, contentsEnd, pdf.length - contentsEnd];
+
+  const byteRangeMarker = Buffer.from(`[ 0 /${BYTE_RANGE_PLACEHOLDER} /${BYTE_RANGE_PLACEHOLDER} /${BYTE_RANGE_PLACEHOLDER} ]`);
+  const byteRangeStart = pdf.indexOf(byteRangeMarker);
+  if (byteRangeStart === -1) {
+    throw new Error('ByteRange placeholder not found in PDF');
+  }
+  // Same length as the placeholder so no offsets move
+  pdf.write(`[${byteRange.join(' ')}]`.padEnd(byteRangeMarker.length, ' '), byteRangeStart, 'latin1');
+
+  const digest = crypto
+    .createHash('sha256')
+    .update(pdf.subarray(0, contentsStart))
+    .update(pdf.subarray(contentsEnd))
+    .digest();
+
+  const { signedData, signatureValue } = buildSignedData({ identity: signer, contentDigest: digest });
+
+  if (TSA_URL) {
+    const token = await requestTimestamp(TSA_URL, signatureValue);
+    addUnsignedAttributes(signedData, [attribute(OIDS.signatureTimeStampToken, fromDerBuffer(token))]);
+  }
+
+  const signatureHex = toDerBuffer(signedData).toString('hex');
+  if (signatureHex.length > SIGNATURE_LENGTH * 2) {
+    throw new Error(`PDF signature is ${signatureHex.length / 2} bytes, more than the ${SIGNATURE_LENGTH} reserved`);
+  }
+  pdf.write(signatureHex, contentsStart + 1, 'latin1');
+
+  return pdf;
+}
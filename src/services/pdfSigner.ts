@@ -1,15 +1,47 @@
 import fs from 'fs';
 import path from 'path';
-import { PDFDocument, rgb, PDFPage } from 'pdf-lib';
+import { PDFDocument, rgb, PDFPage, StandardFonts } from 'pdf-lib';
 import { TextField, Signature } from '../types';
+import { isSealingEnabled, sealPDF } from './pdfSeal';
+import { createFontSet, drawTextInBox } from './pdfFonts';
+import { boxFrame, drawInFrame, getPageGeometry } from './pageGeometry';
+import { fillFormField, flattenForm } from './acroForm';
 
 const UPLOAD_DIR = process.env.UPLOAD_DIR || './uploads';
 
+// ZapfDingbats glyphs for checked checkboxes and selected radio buttons
+const CHECK_GLYPH = '✔';
+const RADIO_GLYPH = '●';
+
+// Size of every page as displayed (CropBox, after rotation), in PDF points,
+// in page order. Field coordinates are relative to this size.
+export async function getPageSizes(pdfPath: string): Promise<{ width: number; height: number }[]> {
+  const backendRoot = path.resolve(__dirname, '..', '..');
+  const resolvedPath = path.isAbsolute(pdfPath) ? pdfPath : path.resolve(backendRoot, pdfPath);
+  const pdfDoc = await PDFDocument.load(fs.readFileSync(resolvedPath));
+  return pdfDoc.getPages().map(page => {
+    const { width, height } = getPageGeometry(page);
+    return { width, height };
+  });
+}
+
+export async function countPages(pdfPath: string): Promise<number> {
+  return (await getPageSizes(pdfPath)).length;
+}
+
+export interface SignPDFOptions {
+  // Pages appended after the document, e.g. the certificate of completion
+  appendedPdf?: Uint8Array;
+  // Draw the PDF's own form fields into the pages (once the document is completed)
+  flattenForm?: boolean;
+}
+
 export async function signPDF(
   originalPdfPath: string,
   outputPdfPath: string,
   textFields: TextField[],
-  signatures: Signature[]
+  signatures: Signature[],
+  options: SignPDFOptions = {}
 ): Promise<void> {
   try {
     // Resolve original PDF path
@@ -29,16 +61,24 @@ export async function signPDF(
     const pdfDoc = await PDFDocument.load(existingPdfBytes);
     
     const pages = pdfDoc.getPages();
+    const symbolFont = await pdfDoc.embedFont(StandardFonts.ZapfDingbats);
+    const fonts = createFontSet(pdfDoc);
     
     // Add text fields
     for (const textField of textFields) {
       if (textField.page_number > 0 && textField.page_number <= pages.length) {
+        // Values for the PDF's own form fields go into the field
+        if (await fillFormField(pdfDoc, fonts, textField)) {
+          console.log(`🧾 Filled form field "${textField.pdf_field_name}"`);
+          continue;
+        }
+        
         const page = pages[textField.page_number - 1];
-        const { width: pageWidth, height: pageHeight } = page.getSize();
+        const geometry = getPageGeometry(page);
         
         // Convert all numeric values to numbers (they might come as strings from DB/API)
         const x = Number(textField.x_coordinate);
-        const y = pageHeight - Number(textField.y_coordinate) - Number(textField.height);
+        const y = Number(textField.y_coordinate);
         const fontSize = Number(textField.font_size);
         
         // Validate numeric values
@@ -52,14 +92,47 @@ export async function signPDF(
           throw new Error(`Invalid numeric values in text field: x=${textField.x_coordinate}, y=${textField.y_coordinate}, font_size=${textField.font_size}`);
         }
         
+        // Checkboxes and radio buttons get a glyph centered in their box
+        if (textField.field_type === 'checkbox' || textField.field_type === 'radio') {
+          if (textField.field_type === 'checkbox' && textField.text_content !== 'true') {
+            continue;
+          }
+          const glyph = textField.field_type === 'checkbox' ? CHECK_GLYPH : RADIO_GLYPH;
+          const boxWidth = Number(textField.width);
+          const boxHeight = Number(textField.height);
+          const glyphSize = Math.min(boxWidth, boxHeight) * 0.8;
+          const glyphWidth = symbolFont.widthOfTextAtSize(glyph, glyphSize);
+          const frame = boxFrame(geometry, { x, y, width: boxWidth, height: boxHeight });
+          
+          console.log(`☑️ Drawing ${textField.field_type} at (${x}, ${y}) on a page rotated ${geometry.rotation}°`);
+          
+          await drawInFrame(page, frame, () => {
+            page.drawText(glyph, {
+              x: (boxWidth - glyphWidth) / 2,
+              y: (boxHeight - glyphSize * 0.7) / 2,
+              size: glyphSize,
+              font: symbolFont,
+              color: rgb(0, 0, 0),
+            });
+          });
+          continue;
+        }
+        
+        // Wrapped, shrunk and aligned to the field; fields saved without a
+        // size get one line across the rest of the page
+        const boxWidth = Number(textField.width) > 0 ? Number(textField.width) : geometry.width - x;
+        const boxHeight = Number(textField.height) > 0 ? Number(textField.height) : fontSize * 1.2;
+        const frame = boxFrame(geometry, { x, y, width: boxWidth, height: boxHeight });
+        
         console.log(`📝 Drawing text "${textField.text_content}" at (${x}, ${y}) with font size ${fontSize}`);
         
-        page.drawText(textField.text_content, {
-          x: x,
-          y: y,
-          size: fontSize,
-          color: rgb(0, 0, 0),
-        });
+        await drawInFrame(page, frame, () =>
+          drawTextInBox(page, fonts, textField.text_content, { x: 0, y: 0, width: boxWidth, height: boxHeight }, {
+            size: fontSize,
+            family: textField.font_family,
+            align: textField.text_align,
+          })
+        );
       }
     }
     
@@ -67,7 +140,7 @@ export async function signPDF(
     for (const signature of signatures) {
       if (signature.page_number > 0 && signature.page_number <= pages.length) {
         const page = pages[signature.page_number - 1];
-        const { width: pageWidth, height: pageHeight } = page.getSize();
+        const geometry = getPageGeometry(page);
         
         // Resolve signature image path
         const signaturePath = signature.signature_image_path;
@@ -75,6 +148,12 @@ export async function signPDF(
           ? signaturePath
           : path.resolve(backendRoot, signaturePath);
         
+        // Signature images only ever live under the upload directory
+        const uploadRoot = path.resolve(backendRoot, UPLOAD_DIR) + path.sep;
+        if (!resolvedSignaturePath.startsWith(uploadRoot)) {
+          throw new Error(`Signature image is outside the upload directory: ${signaturePath}`);
+        }
+        
         console.log(`🖊️ Loading signature from: ${resolvedSignaturePath}`);
         
         if (!fs.existsSync(resolvedSignaturePath)) {
@@ -101,7 +180,7 @@ export async function signPDF(
         
         // Convert all numeric values to numbers (they might come as strings from DB/API)
         const x = Number(signature.x_coordinate);
-        const y = pageHeight - Number(signature.y_coordinate) - Number(signature.height);
+        const y = Number(signature.y_coordinate);
         const width = Number(signature.width);
         const height = Number(signature.height);
         
@@ -116,17 +195,30 @@ export async function signPDF(
           throw new Error(`Invalid numeric values in signature: x=${signature.x_coordinate}, y=${signature.y_coordinate}, width=${signature.width}, height=${signature.height}`);
         }
         
-        page.drawImage(signatureImage, {
-          x: x,
-          y: y,
-          width: width,
-          height: height,
+        // Drawn upright as the page is displayed, whatever its /Rotate
+        const frame = boxFrame(geometry, { x, y, width, height });
+        await drawInFrame(page, frame, () => {
+          page.drawImage(signatureImage, { x: 0, y: 0, width, height });
         });
         
         console.log(`✅ Signature drawn at (${x}, ${y}) with size ${signature.width}x${signature.height}`);
       }
     }
     
+    if (options.flattenForm) {
+      const flattened = await flattenForm(pdfDoc, fonts);
+      if (flattened > 0) {
+        console.log(`🧾 Flattened ${flattened} form field(s)`);
+      }
+    }
+    
+    if (options.appendedPdf) {
+      const appendix = await PDFDocument.load(options.appendedPdf);
+      const appendedPages = await pdfDoc.copyPages(appendix, appendix.getPageIndices());
+      appendedPages.forEach(page => pdfDoc.addPage(page));
+      console.log(`📎 Appended ${appendedPages.length} page(s)`);
+    }
+    
     // Ensure output directory exists
     const outputDir = path.dirname(outputPdfPath);
     if (!fs.existsSync(outputDir)) {
@@ -139,8 +231,15 @@ export async function signPDF(
       ? outputPdfPath
       : path.resolve(backendRoot, outputPdfPath);
     
-    // Flatten the PDF (make it non-editable)
-    const pdfBytes = await pdfDoc.save();
+    // Form fields stay editable until flattened above
+    let pdfBytes: Uint8Array = await pdfDoc.save();
+    
+    // Seal with the organization certificate so tampering is detectable
+    if (isSealingEnabled()) {
+      pdfBytes = await sealPDF(pdfBytes);
+      console.log('🔏 PDF sealed with PAdES signature');
+    }
+    
     fs.writeFileSync(resolvedOutputPath, pdfBytes);
     
     console.log(`✅ PDF signed and saved: ${resolvedOutputPath}`);
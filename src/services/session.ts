@@ -0,0 +1,166 @@
+import { Request } from 'express';
+import pool from '../db/connection';
+import { generateToken, generateRefreshToken, hashToken } from '../utils/jwt';
+import { Session } from '../types';
+
+const REFRESH_TOKEN_EXPIRES_DAYS = parseInt(process.env.REFRESH_TOKEN_EXPIRES_DAYS || '30');
+const SIGNING_SESSION_EXPIRES_HOURS = parseInt(process.env.SIGNING_SESSION_EXPIRES_HOURS || '24');
+
+interface SessionUser {
+  id: number;
+  email: string;
+  role: string;
+  org_id: number | null;
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  sessionId: number;
+}
+
+function refreshTokenExpiry(): Date {
+  return new Date(Date.now() + REFRESH_TOKEN_EXPIRES_DAYS * 24 * 60 * 60 * 1000);
+}
+
+function accessTokenFor(user: SessionUser, sessionId: number, documentId?: number | null): string {
+  return generateToken({
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+    orgId: user.org_id,
+    sessionId,
+    ...(documentId ? { documentId } : {}),
+  });
+}
+
+// Create a new session for a successful login and issue its first token pair.
+// Passing a documentId opens a short-lived session that can only sign that document.
+export async function createSession(user: SessionUser, req: Request, documentId?: number): Promise<SessionTokens> {
+  const refreshToken = generateRefreshToken();
+  const expiresAt = documentId
+    ? new Date(Date.now() + SIGNING_SESSION_EXPIRES_HOURS * 60 * 60 * 1000)
+    : refreshTokenExpiry();
+
+  const result = await pool.query(
+    `INSERT INTO sessions (user_id, refresh_token_hash, ip_address, user_agent, expires_at, document_id)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING id`,
+    [
+      user.id,
+      hashToken(refreshToken),
+      req.ip || req.socket.remoteAddress,
+      req.get('user-agent') || null,
+      expiresAt,
+      documentId || null,
+    ]
+  );
+
+  const sessionId = result.rows[0].id;
+
+  return {
+    token: accessTokenFor(user, sessionId, documentId),
+    refreshToken,
+    sessionId,
+  };
+}
+
+// Exchange a refresh token for a new token pair. The presented token is
+// rotated out in a single UPDATE, so of two concurrent refreshes with the same
+// token only one succeeds; presenting an already-rotated token revokes the
+// whole session since it means the token was copied.
+export async function rotateSession(refreshToken: string, req: Request): Promise<SessionTokens | null> {
+  const tokenHash = hashToken(refreshToken);
+  const newRefreshToken = generateRefreshToken();
+
+  // Signing-link sessions keep their original expiry instead of sliding forward
+  const result = await pool.query(
+    `UPDATE sessions s
+     SET previous_refresh_token_hash = s.refresh_token_hash,
+         refresh_token_hash = $2,
+         expires_at = CASE WHEN s.document_id IS NULL THEN $3 ELSE s.expires_at END,
+         ip_address = $4,
+         user_agent = $5,
+         last_used_at = CURRENT_TIMESTAMP
+     FROM users u
+     WHERE s.user_id = u.id
+       AND s.refresh_token_hash = $1
+       AND s.revoked_at IS NULL
+       AND s.expires_at > CURRENT_TIMESTAMP
+       AND u.is_active IS NOT FALSE
+     RETURNING s.id, s.document_id, u.id as user_id, u.email, u.role, u.org_id`,
+    [
+      tokenHash,
+      hashToken(newRefreshToken),
+      refreshTokenExpiry(),
+      req.ip || req.socket.remoteAddress,
+      req.get('user-agent') || null,
+    ]
+  );
+
+  if (result.rows.length === 0) {
+    const reused = await pool.query(
+      `UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP
+       WHERE previous_refresh_token_hash = $1 AND revoked_at IS NULL
+       RETURNING id, user_id`,
+      [tokenHash]
+    );
+    if (reused.rows.length > 0) {
+      console.warn(`⚠️ Refresh token reuse detected, revoked session ${reused.rows[0].id} (user ${reused.rows[0].user_id})`);
+    }
+    return null;
+  }
+
+  const session = result.rows[0];
+  return {
+    token: accessTokenFor(
+      { id: session.user_id, email: session.email, role: session.role, org_id: session.org_id },
+      session.id,
+      session.document_id
+    ),
+    refreshToken: newRefreshToken,
+    sessionId: session.id,
+  };
+}
+
+// Issue a fresh access token for an existing session (e.g. after a password change)
+export function reissueAccessToken(user: SessionUser, sessionId: number): string {
+  return accessTokenFor(user, sessionId);
+}
+
+export async function revokeSession(sessionId: number, userId: number): Promise<boolean> {
+  const result = await pool.query(
+    `UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP
+     WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL`,
+    [sessionId, userId]
+  );
+  return (result.rowCount || 0) > 0;
+}
+
+export async function revokeSessionByRefreshToken(refreshToken: string): Promise<boolean> {
+  const result = await pool.query(
+    `UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP
+     WHERE refresh_token_hash = $1 AND revoked_at IS NULL`,
+    [hashToken(refreshToken)]
+  );
+  return (result.rowCount || 0) > 0;
+}
+
+export async function revokeAllSessions(userId: number, exceptSessionId?: number): Promise<void> {
+  await pool.query(
+    `UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP
+     WHERE user_id = $1 AND revoked_at IS NULL AND ($2::int IS NULL OR id <> $2)`,
+    [userId, exceptSessionId ?? null]
+  );
+}
+
+export async function listActiveSessions(userId: number): Promise<Session[]> {
+  const result = await pool.query(
+    `SELECT id, user_id, document_id, ip_address, user_agent, expires_at, last_used_at, created_at
+     FROM sessions
+     WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+     ORDER BY last_used_at DESC`,
+    [userId]
+  );
+  return result.rows;
+}
@@ -0,0 +1,82 @@
+import pool from '../db/connection';
+import { SignatureAsset } from '../types';
+
+export async function createSignatureAsset(userId: number, file: Express.Multer.File): Promise<SignatureAsset> {
+  const result = await pool.query(
+    `INSERT INTO signature_assets (user_id, file_path, mime_type, size_bytes)
+     VALUES ($1, $2, $3, $4)
+     RETURNING *`,
+    [userId, file.path, file.mimetype, file.size]
+  );
+  return result.rows[0];
+}
+
+export async function findOwnedSignatureAsset(userId: number, assetId: number): Promise<SignatureAsset | null> {
+  const result = await pool.query(
+    'SELECT * FROM signature_assets WHERE id = $1 AND user_id = $2',
+    [assetId, userId]
+  );
+  return result.rows[0] || null;
+}
+
+// Turn the signatures a client placed into rows that are safe to store.
+// Each one must reference an image the signer owns, either an uploaded asset
+// (signature_asset_id) or a saved signature (user_signature_id); the image
+// path always comes from the server, never from the request.
+export async function resolvePlacedSignatures(
+  userId: number,
+  signatures: any[]
+): Promise<{ signatures: any[]; errors: string[] }> {
+  const assetIds = new Set<number>();
+  const librarySignatureIds = new Set<number>();
+  const errors: string[] = [];
+
+  signatures.forEach((sig, index) => {
+    if (sig.signature_asset_id) {
+      assetIds.add(parseInt(sig.signature_asset_id));
+    } else if (sig.user_signature_id) {
+      librarySignatureIds.add(parseInt(sig.user_signature_id));
+    } else {
+      errors.push(`Signature ${index + 1} must reference a signature_asset_id or user_signature_id`);
+    }
+  });
+
+  const assets = await pool.query(
+    'SELECT id, file_path FROM signature_assets WHERE user_id = $1 AND id = ANY($2)',
+    [userId, Array.from(assetIds)]
+  );
+  const librarySignatures = await pool.query(
+    'SELECT id, image_path FROM user_signatures WHERE user_id = $1 AND id = ANY($2)',
+    [userId, Array.from(librarySignatureIds)]
+  );
+
+  const assetPaths = new Map<number, string>(assets.rows.map(row => [row.id, row.file_path]));
+  const libraryPaths = new Map<number, string>(librarySignatures.rows.map(row => [row.id, row.image_path]));
+
+  for (const id of assetIds) {
+    if (!assetPaths.has(id)) {
+      errors.push(`Signature asset ${id} not found`);
+    }
+  }
+  for (const id of librarySignatureIds) {
+    if (!libraryPaths.has(id)) {
+      errors.push(`Saved signature ${id} not found`);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { signatures: [], errors };
+  }
+
+  return {
+    signatures: signatures.map(sig => {
+      if (sig.signature_asset_id) {
+        const id = parseInt(sig.signature_asset_id);
+        return { ...sig, signature_asset_id: id, user_signature_id: null, signature_image_path: assetPaths.get(id) };
+      }
+      const id = parseInt(sig.user_signature_id);
+      return { ...sig, signature_asset_id: null, user_signature_id: id, signature_image_path: libraryPaths.get(id) };
+    }),
+    errors,
+  };
+}
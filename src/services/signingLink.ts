@@ -0,0 +1,46 @@
+import crypto from 'crypto';
+import pool from '../db/connection';
+import { hashToken } from '../utils/jwt';
+
+export const SIGNING_LINK_EXPIRES_HOURS = parseInt(process.env.SIGNING_LINK_EXPIRES_HOURS || '72');
+
+export interface SigningLink {
+  id: number;
+  document_id: number;
+  recipient_id: number;
+}
+
+// Create a single-use signing link for one assignment. Any earlier unused link
+// for the same assignment stops working, so only the latest email is valid.
+export async function createSigningLink(documentId: number, recipientId: number, createdBy: number): Promise<string> {
+  await pool.query(
+    `UPDATE signing_links SET revoked_at = CURRENT_TIMESTAMP
+     WHERE document_id = $1 AND recipient_id = $2 AND used_at IS NULL AND revoked_at IS NULL`,
+    [documentId, recipientId]
+  );
+
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + SIGNING_LINK_EXPIRES_HOURS * 60 * 60 * 1000);
+
+  await pool.query(
+    `INSERT INTO signing_links (document_id, recipient_id, token_hash, created_by, expires_at)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [documentId, recipientId, hashToken(token), createdBy, expiresAt]
+  );
+
+  return token;
+}
+
+// Mark a signing link as used and return it, or null if the link is unknown,
+// expired, revoked or already used
+export async function consumeSigningLink(token: string): Promise<SigningLink | null> {
+  const result = await pool.query(
+    `UPDATE signing_links
+     SET used_at = CURRENT_TIMESTAMP
+     WHERE token_hash = $1 AND used_at IS NULL AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+     RETURNING id, document_id, recipient_id`,
+    [hashToken(token)]
+  );
+
+  return result.rows[0] || null;
+}
@@ -0,0 +1,92 @@
+import pool from '../db/connection';
+import { generateRandomPassword, hashPassword } from '../utils/password';
+import { createSigningLink, SIGNING_LINK_EXPIRES_HOURS } from './signingLink';
+import { sendDocumentAssignmentEmail, sendSigningLinkEmail } from './email';
+
+// Statuses of a recipient who still has to sign
+export const UNSIGNED_STATUSES = ['pending', 'draft', 'sent_back_for_signing'];
+
+// SQL condition on a document_recipients row aliased "dr": true while the
+// recipient hasn't signed and some earlier group still has to
+export const WAITING_ON_OTHERS = `(
+  dr.status IN ('pending', 'draft', 'sent_back_for_signing')
+  AND EXISTS (
+    SELECT 1 FROM document_recipients earlier
+    WHERE earlier.document_id = dr.document_id
+      AND earlier.signing_order < dr.signing_order
+      AND earlier.status IN ('pending', 'draft', 'sent_back_for_signing')
+  )
+)`;
+
+export async function isWaitingOnOthers(documentId: number, recipientId: number): Promise<boolean> {
+  const result = await pool.query(
+    `SELECT ${WAITING_ON_OTHERS} AS waiting
+     FROM document_recipients dr
+     WHERE dr.document_id = $1 AND dr.recipient_id = $2`,
+    [documentId, recipientId]
+  );
+  return result.rows.length > 0 && result.rows[0].waiting;
+}
+
+// Notify every recipient whose turn has come and who hasn't been told yet.
+// Called after assignment and after each signature, so the next group hears
+// about the document as soon as the previous one has finished. Returns the
+// ids of the recipients notified.
+export async function notifyCurrentSigners(documentId: number, sentBy: number): Promise<number[]> {
+  // Claim the rows first so concurrent submissions can't notify anyone twice
+  const claimed = await pool.query(
+    `UPDATE document_recipients dr
+     SET notified_at = CURRENT_TIMESTAMP
+     WHERE dr.document_id = $1
+       AND dr.notified_at IS NULL
+       AND dr.status = ANY($2)
+       AND NOT ${WAITING_ON_OTHERS}
+     RETURNING dr.recipient_id`,
+    [documentId, UNSIGNED_STATUSES]
+  );
+
+  if (claimed.rows.length === 0) {
+    return [];
+  }
+
+  const recipients = await pool.query(
+    `SELECT u.id, u.email, u.full_name, u.is_external, u.password_hash, u.must_change_password, d.title
+     FROM users u
+     JOIN documents d ON d.id = $1
+     WHERE u.id = ANY($2)`,
+    [documentId, claimed.rows.map(row => row.recipient_id)]
+  );
+
+  for (const recipient of recipients.rows) {
+    try {
+      if (recipient.is_external) {
+        // Accounts requested on assignment get their password with the first notification
+        let tempPassword: string | undefined;
+        if (!recipient.password_hash && recipient.must_change_password) {
+          tempPassword = generateRandomPassword();
+          await pool.query(
+            'UPDATE users SET password_hash = $1, updated_at = CURRENT_TIMESTAMP WHERE id = $2',
+            [await hashPassword(tempPassword), recipient.id]
+          );
+        }
+
+        const signingToken = await createSigningLink(documentId, recipient.id, sentBy);
+        await sendSigningLinkEmail(
+          recipient.email,
+          recipient.full_name,
+          recipient.title,
+          signingToken,
+          SIGNING_LINK_EXPIRES_HOURS,
+          tempPassword
+        );
+      } else {
+        await sendDocumentAssignmentEmail(recipient.email, recipient.full_name, recipient.title, documentId);
+      }
+    } catch (emailError) {
+      console.error(`Email notification failed for ${recipient.email}:`, emailError);
+      // Continue even if email fails
+    }
+  }
+
+  return recipients.rows.map(row => row.id);
+}
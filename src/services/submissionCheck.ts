@@ -0,0 +1,137 @@
+import { DocumentField } from '../types';
+import { getPageSizes } from './pdfSigner';
+
+// Rounding in the client's page rendering shouldn't fail a submission
+const BOUNDS_TOLERANCE = 0.5;
+
+export interface SubmissionProblem {
+  code: 'required_field_missing' | 'page_not_found' | 'outside_page' | 'no_signature';
+  message: string;
+  field_id?: number;
+  page_number?: number;
+}
+
+interface PlacedValue {
+  field_id?: number | null;
+  field_type?: string;
+  page_number: number;
+  x_coordinate: number;
+  y_coordinate: number;
+  width: number;
+  height: number;
+  text_content?: string;
+}
+
+function describe(value: PlacedValue, kind: string): string {
+  return value.field_id ? `Field ${value.field_id}` : kind;
+}
+
+// Check everything a recipient submits before it is stored and the PDF is
+// generated: every required placeholder is filled, every value lies on a page
+// that exists and inside that page (measured with the PDF's real page sizes),
+// and at least one signature was placed. Returns all problems found.
+export async function checkSubmission(
+  pdfPath: string,
+  usesPlaceholders: boolean,
+  assignedFields: DocumentField[],
+  textFields: PlacedValue[],
+  signatures: PlacedValue[]
+): Promise<SubmissionProblem[]> {
+  const problems: SubmissionProblem[] = [];
+  const pageSizes = await getPageSizes(pdfPath);
+
+  const checkPlacement = (value: PlacedValue, kind: string) => {
+    const pageNumber = Number(value.page_number);
+    const page = pageSizes[pageNumber - 1];
+    if (!Number.isInteger(pageNumber) || !page) {
+      problems.push({
+        code: 'page_not_found',
+        message: `${describe(value, kind)} is on page ${value.page_number}, but the document has ${pageSizes.length} page(s)`,
+        field_id: value.field_id ?? undefined,
+        page_number: pageNumber,
+      });
+      return;
+    }
+
+    const x = Number(value.x_coordinate);
+    const y = Number(value.y_coordinate);
+    const width = Number(value.width);
+    const height = Number(value.height);
+    const inside = x >= -BOUNDS_TOLERANCE
+      && y >= -BOUNDS_TOLERANCE
+      && width > 0
+      && height > 0
+      && x + width <= page.width + BOUNDS_TOLERANCE
+      && y + height <= page.height + BOUNDS_TOLERANCE;
+
+    if (!inside) {
+      problems.push({
+        code: 'outside_page',
+        message: `${describe(value, kind)} falls outside page ${pageNumber} (${page.width} x ${page.height} points)`,
+        field_id: value.field_id ?? undefined,
+        page_number: pageNumber,
+      });
+    }
+  };
+
+  textFields.forEach(value => checkPlacement(value, 'A text field'));
+  signatures.forEach(value => checkPlacement(value, 'A signature'));
+
+  // Required placeholders. A radio group counts as filled when any of its
+  // buttons was chosen; a required checkbox has to be checked.
+  const filledIds = new Set<number>();
+  for (const value of textFields) {
+    const filled = value.field_type === 'checkbox'
+      ? value.text_content === 'true'
+      : typeof value.text_content === 'string' && value.text_content.trim() !== '';
+    if (filled && value.field_id) {
+      filledIds.add(value.field_id);
+    }
+  }
+  signatures.forEach(value => value.field_id && filledIds.add(value.field_id));
+
+  const chosenRadioGroups = new Set(
+    assignedFields.filter(f => f.field_type === 'radio' && filledIds.has(f.id)).map(f => f.options?.group)
+  );
+  const reportedRadioGroups = new Set<string | undefined>();
+
+  for (const field of assignedFields.filter(f => f.required)) {
+    if (field.field_type === 'radio') {
+      const group = field.options?.group;
+      if (!chosenRadioGroups.has(group) && !reportedRadioGroups.has(group)) {
+        reportedRadioGroups.add(group);
+        problems.push({
+          code: 'required_field_missing',
+          message: `Choose an option for "${field.label || group}"`,
+          field_id: field.id,
+          page_number: field.page_number,
+        });
+      }
+      continue;
+    }
+
+    if (!filledIds.has(field.id)) {
+      problems.push({
+        code: 'required_field_missing',
+        message: `${field.label || `The ${field.field_type.replace('_', ' ')} field`} on page ${field.page_number} is required`,
+        field_id: field.id,
+        page_number: field.page_number,
+      });
+    }
+  }
+
+  // Every submission carries a signature. With placeholders it can only go
+  // into one, so a recipient the sender gave nowhere to sign can't submit.
+  if (signatures.length === 0) {
+    const canSign = !usesPlaceholders
+      || assignedFields.some(f => f.field_type === 'signature' || f.field_type === 'initials');
+    problems.push({
+      code: 'no_signature',
+      message: canSign
+        ? 'Place at least one signature before submitting'
+        : 'The sender has not placed a signature field for you; ask them to add one',
+    });
+  }
+
+  return problems;
+}
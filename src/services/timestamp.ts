@@ -0,0 +1,81 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import forge from 'node-forge';
+import { fromDerBuffer, integer, octetString, OIDS, oid, sequence, toDerBuffer } from '../utils/cms';
+
+const { asn1 } = forge;
+
+const TSA_TIMEOUT_MS = parseInt(process.env.PDF_SIGNING_TSA_TIMEOUT_MS || '10000');
+
+// PKIStatus values that carry a token (granted, grantedWithMods)
+const GRANTED_STATUSES = [0, 1];
+
+function children(node: forge.asn1.Asn1): forge.asn1.Asn1[] {
+  return node.value as forge.asn1.Asn1[];
+}
+
+// OCTET STRING contents, joining the chunks of a constructed (BER) encoding
+function octets(node: forge.asn1.Asn1): string {
+  return Array.isArray(node.value) ? node.value.map(octets).join('') : node.value;
+}
+
+// Pull the TSTInfo out of a TimeStampToken (a SignedData ContentInfo)
+function readTstInfo(token: forge.asn1.Asn1): forge.asn1.Asn1 {
+  const signedData = children(children(token)[1])[0];
+  const encapsulated = children(signedData).find(
+    node => node.type === asn1.Type.SEQUENCE && asn1.derToOid(children(node)[0].value as string) === OIDS.tstInfo
+  );
+  if (!encapsulated) {
+    throw new Error('Timestamp token does not contain a TSTInfo');
+  }
+  return asn1.fromDer(octets(children(children(encapsulated)[1])[0]));
+}
+
+// Request an RFC 3161 timestamp token over the given data (for PAdES, the
+// signature value) and return the token's DER encoding. The reply is checked
+// against the request so a misbehaving TSA can't stamp the wrong hash.
+export async function requestTimestamp(tsaUrl: string, data: Buffer): Promise<Buffer> {
+  const imprint = crypto.createHash('sha256').update(data).digest();
+  // Positive nonce: clear the top bit so it isn't read as negative
+  const nonce = crypto.randomBytes(8);
+  nonce[0] &= 0x7f;
+
+  const request = sequence([
+    integer(1),
+    sequence([
+      sequence([oid(OIDS.sha256), asn1.create(asn1.Class.UNIVERSAL, asn1.Type.NULL, false, '')]),
+      octetString(imprint.toString('binary')),
+    ]),
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, nonce.toString('binary')),
+    asn1.create(asn1.Class.UNIVERSAL, asn1.Type.BOOLEAN, false, String.fromCharCode(0xff)),
+  ]);
+
+  const response = await axios.post(tsaUrl, toDerBuffer(request), {
+    headers: { 'Content-Type': 'application/timestamp-query' },
+    responseType: 'arraybuffer',
+    timeout: TSA_TIMEOUT_MS,
+  });
+
+  const reply = children(fromDerBuffer(Buffer.from(response.data)));
+  const status = asn1.derToInteger(children(reply[0])[0].value as string);
+  if (!GRANTED_STATUSES.includes(status) || !reply[1]) {
+    throw new Error(`Timestamp authority refused the request (status ${status})`);
+  }
+
+  const token = reply[1];
+  const tstInfo = children(readTstInfo(token));
+  const stampedImprint = Buffer.from(octets(children(tstInfo[2])[1]), 'binary');
+  if (!stampedImprint.equals(imprint)) {
+    throw new Error('Timestamp token does not match the requested hash');
+  }
+
+  const stampedNonce = tstInfo.find(
+    (node, index) => index > 4 && node.tagClass === asn1.Class.UNIVERSAL && node.type === asn1.Type.INTEGER
+  );
+  const asBigInt = (bytes: Buffer) => BigInt(`0x${bytes.toString('hex') || '0'}`);
+  if (!stampedNonce || asBigInt(Buffer.from(stampedNonce.value as string, 'binary')) !== asBigInt(nonce)) {
+    throw new Error('Timestamp token nonce does not match the request');
+  }
+
+  return toDerBuffer(token);
+}
@@ -0,0 +1,146 @@
+import crypto from 'crypto';
+import pool from '../db/connection';
+import { hasRole } from '../middleware/auth';
+import { hashToken } from '../utils/jwt';
+import { encryptSecret, decryptSecret } from '../utils/encryption';
+import { generateTotpSecret, verifyTotp, buildOtpauthUri } from '../utils/totp';
+import { ChallengePayload } from '../types';
+
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'EasySign';
+const RECOVERY_CODE_COUNT = 10;
+
+// Management accounts can send binding documents, so organizations may force 2FA on them
+export async function isTwoFactorRequired(role: string, orgId: number | null): Promise<boolean> {
+  if (!hasRole(role, 'management') || !orgId) {
+    return false;
+  }
+
+  const result = await pool.query(
+    'SELECT require_2fa_management FROM organizations WHERE id = $1',
+    [orgId]
+  );
+
+  return result.rows.length > 0 && result.rows[0].require_2fa_management === true;
+}
+
+// When an organization starts requiring 2FA, management users who haven't
+// enrolled are signed out so the next login makes them set it up. Signing-link
+// sessions are left alone. Returns the number of sessions revoked.
+export async function revokeSessionsLackingTwoFactor(orgId: number, exceptSessionId?: number): Promise<number> {
+  const result = await pool.query(
+    `UPDATE sessions s SET revoked_at = CURRENT_TIMESTAMP
+     FROM users u
+     WHERE s.user_id = u.id
+       AND u.org_id = $1
+       AND u.role IN ('management', 'admin')
+       AND u.totp_enabled IS NOT TRUE
+       AND s.document_id IS NULL
+       AND s.revoked_at IS NULL
+       AND ($2::int IS NULL OR s.id <> $2)`,
+    [orgId, exceptSessionId ?? null]
+  );
+  return result.rowCount || 0;
+}
+
+// Mark a challenge token as spent. Returns false if it was spent already, so
+// each challenge allows a single code attempt.
+export async function consumeChallenge(challenge: ChallengePayload): Promise<boolean> {
+  if (!challenge.jti || !challenge.exp) {
+    return false;
+  }
+
+  await pool.query('DELETE FROM used_challenge_tokens WHERE expires_at < CURRENT_TIMESTAMP');
+  const result = await pool.query(
+    `INSERT INTO used_challenge_tokens (jti, expires_at) VALUES ($1, to_timestamp($2))
+     ON CONFLICT (jti) DO NOTHING`,
+    [challenge.jti, challenge.exp]
+  );
+  return result.rowCount === 1;
+}
+
+// Start (or restart) enrollment: store a new, not yet enabled, secret
+export async function beginEnrollment(userId: number, email: string) {
+  const secret = generateTotpSecret();
+
+  await pool.query(
+    `UPDATE users SET totp_secret = $1, totp_enabled = FALSE, totp_last_used_step = NULL, updated_at = CURRENT_TIMESTAMP
+     WHERE id = $2`,
+    [encryptSecret(secret), userId]
+  );
+
+  return {
+    secret,
+    otpauthUri: buildOtpauthUri(secret, email, TOTP_ISSUER),
+  };
+}
+
+// Check a TOTP code against the user's stored secret. A code is accepted at
+// most once, so an intercepted code cannot be replayed within its window.
+export async function verifyTwoFactorCode(userId: number, code: string): Promise<boolean> {
+  const result = await pool.query(
+    'SELECT totp_secret, totp_last_used_step FROM users WHERE id = $1',
+    [userId]
+  );
+
+  if (result.rows.length === 0 || !result.rows[0].totp_secret) {
+    return false;
+  }
+
+  const { totp_secret, totp_last_used_step } = result.rows[0];
+  const step = verifyTotp(decryptSecret(totp_secret), code);
+
+  if (step === null || (totp_last_used_step !== null && step <= Number(totp_last_used_step))) {
+    return false;
+  }
+
+  await pool.query('UPDATE users SET totp_last_used_step = $1 WHERE id = $2', [step, userId]);
+  return true;
+}
+
+// Replace the user's recovery codes; the plaintext codes are only returned here
+export async function generateRecoveryCodes(userId: number): Promise<string[]> {
+  const codes: string[] = [];
+  for (let i = 0; i < RECOVERY_CODE_COUNT; i++) {
+    const raw = crypto.randomBytes(5).toString('hex');
+    codes.push(`${raw.slice(0, 5)}-${raw.slice(5)}`);
+  }
+
+  await pool.query('DELETE FROM recovery_codes WHERE user_id = $1', [userId]);
+  for (const code of codes) {
+    await pool.query(
+      'INSERT INTO recovery_codes (user_id, code_hash) VALUES ($1, $2)',
+      [userId, hashToken(code)]
+    );
+  }
+
+  return codes;
+}
+
+export async function useRecoveryCode(userId: number, code: string): Promise<boolean> {
+  const normalized = (code || '').trim().toLowerCase();
+  const result = await pool.query(
+    `UPDATE recovery_codes SET used_at = CURRENT_TIMESTAMP
+     WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL
+     RETURNING id`,
+    [userId, hashToken(normalized)]
+  );
+
+  return result.rows.length > 0;
+}
+
+export async function enableTwoFactor(userId: number): Promise<string[]> {
+  await pool.query(
+    'UPDATE users SET totp_enabled = TRUE, updated_at = CURRENT_TIMESTAMP WHERE id = $1',
+    [userId]
+  );
+  return generateRecoveryCodes(userId);
+}
+
+export async function disableTwoFactor(userId: number): Promise<void> {
+  await pool.query(
+    `UPDATE users SET totp_secret = NULL, totp_enabled = FALSE, totp_last_used_step = NULL, updated_at = CURRENT_TIMESTAMP
+     WHERE id = $1`,
+    [userId]
+  );
+  await pool.query('DELETE FROM recovery_codes WHERE user_id = $1', [userId]);
+}
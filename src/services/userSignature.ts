@@ -0,0 +1,132 @@
+import pool from '../db/connection';
+import { SavedSignature, UserSignature } from '../types';
+
+export const USER_SIGNATURE_KINDS = ['signature', 'initials'];
+
+// Columns sent to clients; the image is served by GET /:id/image instead of
+// exposing the server-side path
+const PUBLIC_COLUMNS = 'id, user_id, kind, label, is_default, created_at';
+
+function withImageUrl(signature: Omit<SavedSignature, 'image_url'>): SavedSignature {
+  return { ...signature, image_url: `/api/user-signatures/${signature.id}/image` };
+}
+
+export async function listUserSignatures(userId: number, kind?: string): Promise<SavedSignature[]> {
+  const result = await pool.query(
+    `SELECT ${PUBLIC_COLUMNS} FROM user_signatures
+     WHERE user_id = $1 AND ($2::text IS NULL OR kind = $2)
+     ORDER BY kind, is_default DESC, created_at DESC`,
+    [userId, kind ?? null]
+  );
+  return result.rows.map(withImageUrl);
+}
+
+export async function findUserSignature(userId: number, signatureId: number): Promise<UserSignature | null> {
+  const result = await pool.query(
+    `SELECT ${PUBLIC_COLUMNS}, image_path FROM user_signatures WHERE id = $1 AND user_id = $2`,
+    [signatureId, userId]
+  );
+  return result.rows[0] || null;
+}
+
+// The first saved entry of a kind becomes the default automatically
+export async function createUserSignature(
+  userId: number,
+  kind: string,
+  label: string | null,
+  imagePath: string,
+  makeDefault: boolean
+): Promise<SavedSignature> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const existing = await client.query(
+      'SELECT COUNT(*) as count FROM user_signatures WHERE user_id = $1 AND kind = $2',
+      [userId, kind]
+    );
+    const isDefault = makeDefault || parseInt(existing.rows[0].count) === 0;
+
+    if (isDefault) {
+      await client.query(
+        'UPDATE user_signatures SET is_default = FALSE WHERE user_id = $1 AND kind = $2',
+        [userId, kind]
+      );
+    }
+
+    const result = await client.query(
+      `INSERT INTO user_signatures (user_id, kind, label, image_path, is_default)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING ${PUBLIC_COLUMNS}`,
+      [userId, kind, label, imagePath, isDefault]
+    );
+
+    await client.query('COMMIT');
+    return withImageUrl(result.rows[0]);
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+export async function setDefaultUserSignature(userId: number, signatureId: number): Promise<SavedSignature | null> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+
+    const target = await client.query(
+      'SELECT kind FROM user_signatures WHERE id = $1 AND user_id = $2',
+      [signatureId, userId]
+    );
+    if (target.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return null;
+    }
+
+    await client.query(
+      'UPDATE user_signatures SET is_default = FALSE WHERE user_id = $1 AND kind = $2',
+      [userId, target.rows[0].kind]
+    );
+    const result = await client.query(
+      `UPDATE user_signatures SET is_default = TRUE WHERE id = $1 RETURNING ${PUBLIC_COLUMNS}`,
+      [signatureId]
+    );
+
+    await client.query('COMMIT');
+    return withImageUrl(result.rows[0]);
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Delete a saved entry. The image file stays, since placed signatures may
+// still point at it. If the default was deleted, the newest remaining entry
+// of the same kind takes over.
+export async function deleteUserSignature(userId: number, signatureId: number): Promise<SavedSignature | null> {
+  const result = await pool.query(
+    `DELETE FROM user_signatures WHERE id = $1 AND user_id = $2 RETURNING ${PUBLIC_COLUMNS}`,
+    [signatureId, userId]
+  );
+  if (result.rows.length === 0) {
+    return null;
+  }
+
+  const deleted = withImageUrl(result.rows[0]);
+  if (deleted.is_default) {
+    await pool.query(
+      `UPDATE user_signatures SET is_default = TRUE
+       WHERE id = (
+         SELECT id FROM user_signatures WHERE user_id = $1 AND kind = $2
+         ORDER BY created_at DESC LIMIT 1
+       )`,
+      [userId, deleted.kind]
+    );
+  }
+
+  return deleted;
+}
@@ -1,10 +1,23 @@
+export interface Organization {
+  id: number;
+  name: string;
+  slug: string;
+  require_2fa_management: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
 export interface User {
   id: number;
+  org_id: number | null;
   email: string;
   full_name: string;
-  role: 'management' | 'recipient';
+  role: 'admin' | 'management' | 'recipient';
   is_external: boolean;
+  is_active: boolean;
   must_change_password: boolean;
+  password_changed_at?: Date;
+  totp_enabled: boolean;
   created_at: Date;
   updated_at: Date;
 }
@@ -15,20 +28,44 @@ export interface Document {
   original_filename: string;
   original_file_path: string;
   signed_file_path?: string;
+  // The uploaded .doc/.docx, for Word uploads
+  source_file_path?: string | null;
   file_type: 'pdf' | 'word';
   uploaded_by: number;
+  org_id: number;
   status: 'draft' | 'pending' | 'signed' | 'completed';
   created_at: Date;
   updated_at: Date;
 }
 
+export type TextAlign = 'left' | 'center' | 'right';
+
+// Field rectangles in PDF points, or as fractions (0 to 1) of the displayed page
+export type CoordinateMode = 'points' | 'normalized';
+
+export type VersionTrigger = 'uploaded' | 'signed' | 'completed';
+
+export interface DocumentVersion {
+  id: number;
+  document_id: number;
+  version_number: number;
+  trigger: VersionTrigger;
+  actor_id: number | null;
+  file_path: string;
+  sha256: string;
+  file_deleted_at: Date | null;
+  created_at: Date;
+}
+
 export interface DocumentRecipient {
   id: number;
   document_id: number;
   recipient_id: number;
-  status: 'pending' | 'draft' | 'signed';
+  status: 'pending' | 'draft' | 'signed' | 'sent_back_for_signing';
   due_date?: Date;
   signed_at?: Date;
+  signing_order: number;
+  notified_at?: Date | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -44,6 +81,14 @@ export interface TextField {
   height: number;
   font_size: number;
   text_content: string;
+  field_id?: number | null;
+  // Any non-image field type; defaults to 'text'
+  field_type?: FieldType;
+  // See services/pdfFonts.ts; null uses the default font
+  font_family?: string | null;
+  text_align?: TextAlign;
+  // Joined from the placeholder when the value fills the PDF's own form field
+  pdf_field_name?: string | null;
   is_draft: boolean;
 }
 
@@ -57,9 +102,81 @@ export interface Signature {
   width: number;
   height: number;
   signature_image_path: string;
+  user_signature_id?: number | null;
+  signature_asset_id?: number | null;
+  field_id?: number | null;
+  field_type?: 'signature' | 'initials';
   is_draft: boolean;
 }
 
+export type FieldType =
+  | 'signature'
+  | 'initials'
+  | 'text'
+  | 'checkbox'
+  | 'date_signed'
+  | 'dropdown'
+  | 'radio'
+  | 'number'
+  | 'email';
+
+// Per-type settings of a field placeholder
+export interface FieldOptions {
+  choices?: string[]; // dropdown
+  group?: string; // radio: buttons sharing a group are exclusive
+  value?: string; // radio: what choosing this button means
+  min?: number; // number
+  max?: number; // number
+  format?: string; // date_signed
+  // Defaults for how the value is drawn (text-like fields)
+  font?: string;
+  font_size?: number;
+  align?: TextAlign;
+}
+
+// A placeholder the document owner defines for one recipient to fill in
+export interface DocumentField {
+  id: number;
+  document_id: number;
+  recipient_email: string;
+  recipient_id?: number | null;
+  field_type: FieldType;
+  page_number: number;
+  x_coordinate: number;
+  y_coordinate: number;
+  width: number;
+  height: number;
+  required: boolean;
+  label?: string | null;
+  options: FieldOptions;
+  // AcroForm field in the PDF this placeholder fills (null when drawn over the page)
+  pdf_field_name?: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface SignatureAsset {
+  id: number;
+  user_id: number;
+  file_path: string;
+  mime_type: string;
+  size_bytes: number;
+  created_at: Date;
+}
+
+export interface UserSignature {
+  id: number;
+  user_id: number;
+  kind: 'signature' | 'initials';
+  label?: string | null;
+  image_path: string;
+  is_default: boolean;
+  created_at: Date;
+}
+
+// A saved signature as clients see it
+export type SavedSignature = Omit<UserSignature, 'image_path'> & { image_url: string };
+
 export interface DraftData {
   textFields: TextField[];
   signatures: Signature[];
@@ -69,5 +186,44 @@ export interface JwtPayload {
   userId: number;
   email: string;
   role: string;
+  orgId: number | null;
+  sessionId: number;
+  documentId?: number; // set for signing-link sessions, which only reach this document
+  apiKeyId?: number; // set when the request was made with an API key (sessionId is then 0)
+  iat?: number;
+  exp?: number;
+}
+
+export interface ApiKey {
+  id: number;
+  org_id: number;
+  created_by: number;
+  name: string;
+  key_prefix: string;
+  scopes: string[];
+  expires_at?: Date | null;
+  last_used_at?: Date | null;
+  last_used_ip?: string | null;
+  revoked_at?: Date | null;
+  created_at: Date;
+}
+
+export interface ChallengePayload {
+  userId: number;
+  purpose: 'mfa_challenge' | 'mfa_setup';
+  jti?: string; // unique id, so a spent challenge can be refused
+  exp?: number;
+}
+
+export interface Session {
+  id: number;
+  user_id: number;
+  document_id?: number | null;
+  ip_address?: string;
+  user_agent?: string;
+  expires_at: Date;
+  revoked_at?: Date;
+  last_used_at: Date;
+  created_at: Date;
 }
 
@@ -0,0 +1,191 @@
+import crypto from 'crypto';
+import forge from 'node-forge';
+
+// Minimal CMS (RFC 5652) SignedData builder for PDF signatures and RFC 3161
+// timestamp tokens. forge's own PKCS#7 signer can't add the attributes
+// PAdES needs (signing-certificate-v2, timestamps), so the structure is
+// assembled here and signed with Node's crypto. RSA keys only.
+
+const { asn1 } = forge;
+
+export const OIDS = {
+  data: '1.2.840.113549.1.7.1',
+  signedData: '1.2.840.113549.1.7.2',
+  tstInfo: '1.2.840.113549.1.9.16.1.4',
+  contentType: '1.2.840.113549.1.9.3',
+  messageDigest: '1.2.840.113549.1.9.4',
+  signingCertificateV2: '1.2.840.113549.1.9.16.2.47',
+  signatureTimeStampToken: '1.2.840.113549.1.9.16.2.14',
+  sha256: '2.16.840.1.101.3.4.2.1',
+  rsaEncryption: '1.2.840.113549.1.1.1',
+};
+
+export interface SigningIdentity {
+  certificate: forge.pki.Certificate;
+  // Issuing chain, sent along so validators can build the path
+  chain: forge.pki.Certificate[];
+  privateKeyPem: string;
+}
+
+export const oid = (value: string) =>
+  asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OID, false, asn1.oidToDer(value).getBytes());
+export const octetString = (bytes: string) =>
+  asn1.create(asn1.Class.UNIVERSAL, asn1.Type.OCTETSTRING, false, bytes);
+export const integer = (value: number) =>
+  asn1.create(asn1.Class.UNIVERSAL, asn1.Type.INTEGER, false, asn1.integerToDer(value).getBytes());
+export const sequence = (items: forge.asn1.Asn1[]) =>
+  asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, items);
+const set = (items: forge.asn1.Asn1[]) =>
+  asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, items);
+const sha256Algorithm = () => sequence([oid(OIDS.sha256), asn1.create(asn1.Class.UNIVERSAL, asn1.Type.NULL, false, '')]);
+
+export const toDerBuffer = (value: forge.asn1.Asn1) => Buffer.from(asn1.toDer(value).getBytes(), 'binary');
+export const fromDerBuffer = (der: Buffer) => asn1.fromDer(der.toString('binary'));
+
+export function certificateDer(certificate: forge.pki.Certificate): Buffer {
+  return toDerBuffer(forge.pki.certificateToAsn1(certificate));
+}
+
+// DER requires SET OF members in ascending order of their encodings
+function derSet(items: forge.asn1.Asn1[]) {
+  const sorted = items
+    .map(item => ({ item, der: toDerBuffer(item) }))
+    .sort((a, b) => Buffer.compare(a.der, b.der))
+    .map(entry => entry.item);
+  return set(sorted);
+}
+
+export function attribute(type: string, value: forge.asn1.Asn1) {
+  return sequence([oid(type), set([value])]);
+}
+
+// ESS signing-certificate-v2, binding the signature to the signer's certificate
+export function signingCertificateV2Attribute(certificate: forge.pki.Certificate) {
+  const certHash = crypto.createHash('sha256').update(certificateDer(certificate)).digest();
+  return attribute(
+    OIDS.signingCertificateV2,
+    sequence([sequence([sequence([octetString(certHash.toString('binary'))])])])
+  );
+}
+
+function issuerAndSerialNumber(certificate: forge.pki.Certificate) {
+  // Use the issuer exactly as encoded in the certificate
+  const tbs = (forge.pki.certificateToAsn1(certificate).value as forge.asn1.Asn1[])[0];
+  const tbsFields = tbs.value as forge.asn1.Asn1[];
+  const hasVersion = tbsFields[0].tagClass === asn1.Class.CONTEXT_SPECIFIC;
+  const issuer = tbsFields[hasVersion ? 3 : 2];
+  const serial = asn1.create(
+    asn1.Class.UNIVERSAL,
+    asn1.Type.INTEGER,
+    false,
+    forge.util.hexToBytes(certificate.serialNumber)
+  );
+  return sequence([issuer, serial]);
+}
+
+interface SignedDataOptions {
+  identity: SigningIdentity;
+  // SHA-256 of the signed content (the PDF byte ranges, or a TSTInfo)
+  contentDigest: Buffer;
+  contentType?: string;
+  // Encapsulated content; omitted for detached signatures
+  content?: Buffer;
+  extraSignedAttributes?: forge.asn1.Asn1[];
+}
+
+// Build a SignedData ContentInfo and return it together with the raw
+// signature value (which a timestamp is requested for)
+export function buildSignedData(options: SignedDataOptions): { signedData: forge.asn1.Asn1; signatureValue: Buffer } {
+  const contentType = options.contentType || OIDS.data;
+  const { certificate, chain, privateKeyPem } = options.identity;
+
+  const signedAttributes = [
+    attribute(OIDS.contentType, oid(contentType)),
+    attribute(OIDS.messageDigest, octetString(options.contentDigest.toString('binary'))),
+    signingCertificateV2Attribute(certificate),
+    ...(options.extraSignedAttributes || []),
+  ];
+
+  // The signature covers the attributes encoded as a SET; in the SignerInfo
+  // the same bytes appear under an implicit [0] tag
+  const attributeSet = derSet(signedAttributes);
+  const signatureValue = crypto.sign('sha256', toDerBuffer(attributeSet), privateKeyPem);
+  const implicitAttributes = asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, attributeSet.value as forge.asn1.Asn1[]);
+
+  const signerInfo = sequence([
+    integer(1),
+    issuerAndSerialNumber(certificate),
+    sha256Algorithm(),
+    implicitAttributes,
+    sequence([oid(OIDS.rsaEncryption), asn1.create(asn1.Class.UNIVERSAL, asn1.Type.NULL, false, '')]),
+    octetString(signatureValue.toString('binary')),
+  ]);
+
+  const encapsulatedContent = options.content
+    ? sequence([
+      oid(contentType),
+      asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, [octetString(options.content.toString('binary'))]),
+    ])
+    : sequence([oid(contentType)]);
+
+  const certificates = [certificate, ...chain].map(cert => forge.pki.certificateToAsn1(cert));
+
+  const signedData = sequence([
+    oid(OIDS.signedData),
+    asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, [
+      sequence([
+        // Version 3 when the content isn't plain data (RFC 5652, 5.1)
+        integer(contentType === OIDS.data ? 1 : 3),
+        set([sha256Algorithm()]),
+        encapsulatedContent,
+        asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, certificates),
+        set([signerInfo]),
+      ]),
+    ]),
+  ]);
+
+  return { signedData, signatureValue };
+}
+
+// Attach unsigned attributes (e.g. a signature timestamp) to the single
+// SignerInfo of a SignedData built by buildSignedData
+export function addUnsignedAttributes(signedData: forge.asn1.Asn1, attributes: forge.asn1.Asn1[]): void {
+  const content = (signedData.value as forge.asn1.Asn1[])[1].value as forge.asn1.Asn1[];
+  const signerInfos = (content[0].value as forge.asn1.Asn1[])[4];
+  const signerInfo = (signerInfos.value as forge.asn1.Asn1[])[0];
+  (signerInfo.value as forge.asn1.Asn1[]).push(
+    asn1.create(asn1.Class.CONTEXT_SPECIFIC, 1, true, attributes)
+  );
+}
+
+// Read a PKCS#12 file holding the signing key and certificate chain
+export function loadPkcs12(p12: Buffer, password: string): SigningIdentity {
+  const parsed = forge.pkcs12.pkcs12FromAsn1(fromDerBuffer(p12), password);
+
+  const keyBags = parsed.getBags({ bagType: forge.pki.oids.pkcs8ShroudedKeyBag })[forge.pki.oids.pkcs8ShroudedKeyBag] || [];
+  const plainKeyBags = parsed.getBags({ bagType: forge.pki.oids.keyBag })[forge.pki.oids.keyBag] || [];
+  const keyBag = [...keyBags, ...plainKeyBags].find(bag => bag.key);
+  if (!keyBag?.key) {
+    throw new Error('No private key found in the PKCS#12 file');
+  }
+  const privateKey = keyBag.key as forge.pki.rsa.PrivateKey;
+
+  const certificates = (parsed.getBags({ bagType: forge.pki.oids.certBag })[forge.pki.oids.certBag] || [])
+    .map(bag => bag.cert)
+    .filter((cert): cert is forge.pki.Certificate => !!cert);
+
+  // The signer is the certificate whose public key matches the private key
+  const certificate = certificates.find(cert => {
+    const publicKey = cert.publicKey as forge.pki.rsa.PublicKey;
+    return publicKey.n.equals(privateKey.n) && publicKey.e.equals(privateKey.e);
+  });
+  if (!certificate) {
+    throw new Error('No certificate matching the private key found in the PKCS#12 file');
+  }
+
+  return {
+    certificate,
+    chain: certificates.filter(cert => cert !== certificate),
+    privateKeyPem: forge.pki.privateKeyToPem(privateKey),
+  };
+}
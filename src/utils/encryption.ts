@@ -0,0 +1,25 @@
+import crypto from 'crypto';
+
+// AES-256-GCM for small secrets stored in the database (e.g. TOTP seeds).
+// Output format: base64(iv):base64(authTag):base64(ciphertext)
+const ENCRYPTION_KEY = crypto
+  .createHash('sha256')
+  .update(process.env.ENCRYPTION_KEY || process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-this-in-production')
+  .digest();
+
+export function encryptSecret(plaintext: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', ENCRYPTION_KEY, iv);
+  const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return [iv, authTag, encrypted].map(part => part.toString('base64')).join(':');
+}
+
+export function decryptSecret(payload: string): string {
+  const [iv, authTag, encrypted] = payload.split(':').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', ENCRYPTION_KEY, iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
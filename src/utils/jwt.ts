@@ -1,18 +1,61 @@
-import jwt from 'jsonwebtoken';
-import { JwtPayload } from '../types';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import crypto from 'crypto';
+import { JwtPayload, ChallengePayload } from '../types';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-this-in-production';
-const JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '7d';
+const ACCESS_TOKEN_EXPIRES_IN = process.env.ACCESS_TOKEN_EXPIRES_IN || '15m';
+const CHALLENGE_TOKEN_EXPIRES_IN = '5m';
 
 export function generateToken(payload: JwtPayload): string {
-  return jwt.sign(payload, JWT_SECRET, { expiresIn: JWT_EXPIRES_IN });
+  return jwt.sign(payload, JWT_SECRET, {
+    expiresIn: ACCESS_TOKEN_EXPIRES_IN as SignOptions['expiresIn'],
+  });
 }
 
 export function verifyToken(token: string): JwtPayload {
+  let payload: JwtPayload & { purpose?: string };
   try {
-    return jwt.verify(token, JWT_SECRET) as JwtPayload;
+    payload = jwt.verify(token, JWT_SECRET) as JwtPayload & { purpose?: string };
   } catch (error) {
     throw new Error('Invalid or expired token');
   }
+  
+  // Challenge tokens share the signing key but must never work as access tokens
+  if (payload.purpose) {
+    throw new Error('Invalid or expired token');
+  }
+  
+  return payload;
+}
+
+// Short-lived token handed out between the password step and the second factor
+export function generateChallengeToken(payload: ChallengePayload): string {
+  return jwt.sign(payload, JWT_SECRET, {
+    expiresIn: CHALLENGE_TOKEN_EXPIRES_IN as SignOptions['expiresIn'],
+    jwtid: crypto.randomBytes(16).toString('hex'),
+  });
 }
 
+export function verifyChallengeToken(token: string, purpose: ChallengePayload['purpose']): ChallengePayload {
+  let payload: ChallengePayload;
+  try {
+    payload = jwt.verify(token, JWT_SECRET) as ChallengePayload;
+  } catch (error) {
+    throw new Error('Invalid or expired challenge token');
+  }
+  
+  if (payload.purpose !== purpose) {
+    throw new Error('Invalid or expired challenge token');
+  }
+  
+  return payload;
+}
+
+// Refresh tokens are opaque random strings; only their SHA-256 hash is stored
+export function generateRefreshToken(): string {
+  return crypto.randomBytes(48).toString('hex');
+}
+
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
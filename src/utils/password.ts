@@ -6,7 +6,11 @@ export async function hashPassword(password: string): Promise<string> {
   return bcrypt.hash(password, SALT_ROUNDS);
 }
 
-export async function comparePassword(password: string, hash: string): Promise<boolean> {
+// Link-only external recipients have no password hash; nothing matches it
+export async function comparePassword(password: string, hash: string | null): Promise<boolean> {
+  if (!hash) {
+    return false;
+  }
   return bcrypt.compare(password, hash);
 }
 